@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "generation_requests" ADD COLUMN     "firstTokenMs" INTEGER;
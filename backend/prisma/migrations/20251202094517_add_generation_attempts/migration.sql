@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "generation_requests" ADD COLUMN     "attempts" JSONB,
+ADD COLUMN     "requestedProvider" TEXT;
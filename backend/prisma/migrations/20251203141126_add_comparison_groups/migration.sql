@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "generation_requests" ADD COLUMN     "comparisonGroupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "comparison_groups" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "winnerId" TEXT,
+    "votedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comparison_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_requests_comparisonGroupId_idx" ON "generation_requests"("comparisonGroupId");
+
+-- AddForeignKey
+ALTER TABLE "generation_requests" ADD CONSTRAINT "generation_requests_comparisonGroupId_fkey" FOREIGN KEY ("comparisonGroupId") REFERENCES "comparison_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comparison_groups" ADD CONSTRAINT "comparison_groups_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
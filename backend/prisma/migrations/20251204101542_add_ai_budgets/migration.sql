@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ai_budgets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "monthlyLimit" DOUBLE PRECISION NOT NULL,
+    "warnThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_budgets_userId_key" ON "ai_budgets"("userId");
+
+-- Only one global budget (userId NULL) may exist
+CREATE UNIQUE INDEX "ai_budgets_global_key" ON "ai_budgets"(("userId" IS NULL)) WHERE "userId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "ai_budgets" ADD CONSTRAINT "ai_budgets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
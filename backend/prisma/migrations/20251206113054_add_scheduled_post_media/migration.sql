@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "scheduled_posts" ADD COLUMN     "mediaUrls" TEXT[] DEFAULT ARRAY[]::TEXT[];
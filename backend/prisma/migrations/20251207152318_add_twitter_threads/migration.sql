@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "generation_requests" ADD COLUMN     "twitterThreadIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "scheduled_posts" ADD COLUMN     "threadSegments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "twitterThreadIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
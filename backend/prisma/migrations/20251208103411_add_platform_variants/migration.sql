@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "scheduled_posts" ADD COLUMN     "linkedinContent" TEXT,
+ADD COLUMN     "twitterContent" TEXT;
@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "scheduled_post_variants" (
+    "id" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "mediaUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "threadSegments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "postId" TEXT,
+    "threadIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "postedAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_post_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_post_variants_scheduledPostId_platform_key" ON "scheduled_post_variants"("scheduledPostId", "platform");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_post_variants" ADD CONSTRAINT "scheduled_post_variants_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "scheduled_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Copy the Twitter half of existing posts into variants
+INSERT INTO "scheduled_post_variants" ("id", "scheduledPostId", "platform", "content", "mediaUrls", "threadSegments", "status", "postId", "threadIds", "postedAt", "error", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    "id",
+    'twitter',
+    COALESCE("twitterContent", "content"),
+    "mediaUrls",
+    "threadSegments",
+    CASE
+        WHEN "status" IN ('pending', 'cancelled') THEN "status"
+        WHEN "twitterPostedAt" IS NOT NULL THEN 'posted'
+        ELSE 'failed'
+    END,
+    "twitterPostId",
+    "twitterThreadIds",
+    "twitterPostedAt",
+    "twitterError",
+    "createdAt",
+    "updatedAt"
+FROM "scheduled_posts"
+WHERE "platform" IN ('twitter', 'both');
+
+-- Copy the LinkedIn half of existing posts into variants
+INSERT INTO "scheduled_post_variants" ("id", "scheduledPostId", "platform", "content", "mediaUrls", "status", "postId", "postedAt", "error", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    "id",
+    'linkedin',
+    COALESCE("linkedinContent", "content"),
+    "mediaUrls",
+    CASE
+        WHEN "status" IN ('pending', 'cancelled') THEN "status"
+        WHEN "linkedinPostedAt" IS NOT NULL THEN 'posted'
+        ELSE 'failed'
+    END,
+    "linkedinPostId",
+    "linkedinPostedAt",
+    "linkedinError",
+    "createdAt",
+    "updatedAt"
+FROM "scheduled_posts"
+WHERE "platform" IN ('linkedin', 'both');
+
+-- AlterTable
+ALTER TABLE "scheduled_posts" DROP COLUMN "linkedinContent",
+DROP COLUMN "linkedinError",
+DROP COLUMN "linkedinPostId",
+DROP COLUMN "linkedinPostedAt",
+DROP COLUMN "mediaUrls",
+DROP COLUMN "threadSegments",
+DROP COLUMN "twitterContent",
+DROP COLUMN "twitterError",
+DROP COLUMN "twitterPostId",
+DROP COLUMN "twitterPostedAt",
+DROP COLUMN "twitterThreadIds";
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "connected_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "username" TEXT,
+    "displayName" TEXT,
+    "accessToken" TEXT NOT NULL,
+    "accessSecret" TEXT,
+    "refreshToken" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connected_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "connected_accounts_userId_platform_key" ON "connected_accounts"("userId", "platform");
+
+-- AddForeignKey
+ALTER TABLE "connected_accounts" ADD CONSTRAINT "connected_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing connections off the users table
+INSERT INTO "connected_accounts" ("id", "userId", "platform", "externalId", "username", "displayName", "accessToken", "accessSecret", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "id", 'twitter', COALESCE("twitterUserId", ''), "twitterUsername", "twitterUsername", "twitterAccessToken", "twitterAccessSecret", CURRENT_TIMESTAMP
+FROM "users"
+WHERE "twitterAccessToken" IS NOT NULL AND "twitterAccessSecret" IS NOT NULL;
+
+INSERT INTO "connected_accounts" ("id", "userId", "platform", "externalId", "username", "displayName", "accessToken", "tokenExpiresAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "id", 'linkedin', COALESCE("linkedinUserId", ''), "linkedinUsername", "linkedinUsername", "linkedinAccessToken", "linkedinTokenExpiry", CURRENT_TIMESTAMP
+FROM "users"
+WHERE "linkedinAccessToken" IS NOT NULL;
+
+INSERT INTO "connected_accounts" ("id", "userId", "platform", "externalId", "accessToken", "refreshToken", "tokenExpiresAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "id", 'canva', COALESCE("canvaUserId", ''), "canvaAccessToken", "canvaRefreshToken", "canvaTokenExpiry", CURRENT_TIMESTAMP
+FROM "users"
+WHERE "canvaAccessToken" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "canvaAccessToken",
+DROP COLUMN "canvaRefreshToken",
+DROP COLUMN "canvaTokenExpiry",
+DROP COLUMN "canvaUserId",
+DROP COLUMN "linkedinAccessToken",
+DROP COLUMN "linkedinTokenExpiry",
+DROP COLUMN "linkedinUserId",
+DROP COLUMN "linkedinUsername",
+DROP COLUMN "twitterAccessSecret",
+DROP COLUMN "twitterAccessToken",
+DROP COLUMN "twitterUserId",
+DROP COLUMN "twitterUsername";
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "connected_accounts" ADD COLUMN     "instanceUrl" TEXT;
+
+-- AlterTable
+ALTER TABLE "scheduled_post_variants" ADD COLUMN     "contentWarning" TEXT;
+
+-- CreateTable
+CREATE TABLE "mastodon_apps" (
+    "id" TEXT NOT NULL,
+    "instanceUrl" TEXT NOT NULL,
+    "redirectUri" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mastodon_apps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mastodon_apps_instanceUrl_redirectUri_key" ON "mastodon_apps"("instanceUrl", "redirectUri");
@@ -0,0 +1,29 @@
+-- DropIndex
+DROP INDEX "connected_accounts_userId_platform_key";
+
+-- AlterTable
+ALTER TABLE "connected_accounts" ADD COLUMN     "nickname" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "connected_accounts_userId_platform_externalId_key" ON "connected_accounts"("userId", "platform", "externalId");
+
+-- CreateIndex
+CREATE INDEX "connected_accounts_userId_platform_idx" ON "connected_accounts"("userId", "platform");
+
+-- DropIndex
+DROP INDEX "scheduled_post_variants_scheduledPostId_platform_key";
+
+-- AlterTable
+ALTER TABLE "scheduled_post_variants" ADD COLUMN     "accountId" TEXT;
+
+-- Existing variants publish as the user's only account on their platform
+UPDATE "scheduled_post_variants" AS v
+SET "accountId" = a."id"
+FROM "scheduled_posts" AS p, "connected_accounts" AS a
+WHERE p."id" = v."scheduledPostId" AND a."userId" = p."userId" AND a."platform" = v."platform";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_post_variants_scheduledPostId_accountId_key" ON "scheduled_post_variants"("scheduledPostId", "accountId");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_post_variants" ADD CONSTRAINT "scheduled_post_variants_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "connected_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "generation_requests" ADD COLUMN     "linkedinAuthorUrn" TEXT;
+
+-- AlterTable
+ALTER TABLE "scheduled_post_variants" ADD COLUMN     "authorUrn" TEXT;
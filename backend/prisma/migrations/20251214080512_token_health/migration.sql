@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "connected_accounts" ADD COLUMN     "refreshTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "tokenCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "tokenError" TEXT,
+ADD COLUMN     "tokenStatus" TEXT NOT NULL DEFAULT 'ok';
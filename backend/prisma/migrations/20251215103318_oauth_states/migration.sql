@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "oauth_states" (
+    "id" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionHash" TEXT NOT NULL,
+    "data" JSONB NOT NULL DEFAULT '{}',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oauth_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_states_state_key" ON "oauth_states"("state");
+
+-- CreateIndex
+CREATE INDEX "oauth_states_expiresAt_idx" ON "oauth_states"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "oauth_states" ADD CONSTRAINT "oauth_states_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "user_sessions" (
+    "sid" TEXT NOT NULL,
+    "sess" JSONB NOT NULL,
+    "expire" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("sid")
+);
+
+-- CreateIndex
+CREATE INDEX "user_sessions_expire_idx" ON "user_sessions"("expire");
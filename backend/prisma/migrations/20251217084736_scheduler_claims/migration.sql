@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "scheduled_posts" ADD COLUMN     "claimedBy" TEXT,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "scheduled_posts_status_leaseExpiresAt_idx" ON "scheduled_posts"("status", "leaseExpiresAt");
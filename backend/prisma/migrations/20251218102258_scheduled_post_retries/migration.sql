@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "scheduled_posts" ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "scheduled_post_variants" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "errorKind" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "scheduled_posts_status_nextAttemptAt_idx" ON "scheduled_posts"("status", "nextAttemptAt");
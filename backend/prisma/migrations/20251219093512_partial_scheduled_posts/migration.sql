@@ -0,0 +1,8 @@
+-- Posts that went out on some platforms but failed on others were rolled up as posted
+UPDATE "scheduled_posts" SET "status" = 'partial'
+WHERE "status" = 'posted'
+  AND EXISTS (
+    SELECT 1 FROM "scheduled_post_variants"
+    WHERE "scheduled_post_variants"."scheduledPostId" = "scheduled_posts"."id"
+      AND "scheduled_post_variants"."status" = 'failed'
+  );
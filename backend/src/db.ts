@@ -1,7 +1,76 @@
 import { PrismaClient } from '@prisma/client';
+import { ENCRYPTED_FIELDS, TokenEncryptionService } from './services/token-encryption.service';
 
-const prisma = new PrismaClient({
+const basePrisma = new PrismaClient({
   log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
 });
 
+if (process.env.NODE_ENV === 'production' && !TokenEncryptionService.isConfigured()) {
+  console.warn('TOKEN_ENCRYPTION_KEYS is not set: OAuth tokens are stored unencrypted');
+}
+
+// Encrypt the secret fields of write data, including { set: value } updates and createMany arrays
+function encryptData(fields: readonly string[], data: any): any {
+  if (Array.isArray(data)) return data.map(item => encryptData(fields, item));
+  if (!data || typeof data !== 'object') return data;
+
+  const encrypted = { ...data };
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (typeof value === 'string') {
+      encrypted[field] = TokenEncryptionService.encrypt(value);
+    } else if (typeof value?.set === 'string') {
+      encrypted[field] = { set: TokenEncryptionService.encrypt(value.set) };
+    }
+  }
+  return encrypted;
+}
+
+function encryptWrites(fields: readonly string[]) {
+  const handler = async ({ args, query }: { args: any; query: (args: any) => Promise<any> }) => {
+    if (args.data) args.data = encryptData(fields, args.data);
+    if (args.create) args.create = encryptData(fields, args.create);
+    if (args.update) args.update = encryptData(fields, args.update);
+    return query(args);
+  };
+  return { create: handler, createMany: handler, update: handler, updateMany: handler, upsert: handler };
+}
+
+// Result field for a nullable secret, read back as plaintext
+function decrypted<T extends string>(field: T) {
+  return {
+    needs: { [field]: true } as { [K in T]: true },
+    compute: (record: { [K in T]: string | null }) => {
+      const value = record[field];
+      return value === null ? null : TokenEncryptionService.decrypt(value);
+    },
+  };
+}
+
+// Tokens are encrypted on write and decrypted on read, including when loaded through relations,
+// so the rest of the app only ever sees plaintext
+const prisma = basePrisma.$extends({
+  name: 'token-encryption',
+  query: {
+    connectedAccount: encryptWrites(ENCRYPTED_FIELDS.connectedAccount),
+    mastodonApp: encryptWrites(ENCRYPTED_FIELDS.mastodonApp),
+  },
+  result: {
+    connectedAccount: {
+      accessToken: {
+        needs: { accessToken: true },
+        compute: (account) => TokenEncryptionService.decrypt(account.accessToken),
+      },
+      accessSecret: decrypted('accessSecret'),
+      refreshToken: decrypted('refreshToken'),
+    },
+    mastodonApp: {
+      clientSecret: {
+        needs: { clientSecret: true },
+        compute: (app) => TokenEncryptionService.decrypt(app.clientSecret),
+      },
+    },
+  },
+});
+
 export default prisma;
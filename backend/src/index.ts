@@ -1,17 +1,19 @@
+// Load .env before anything that reads the environment at import time, such as db.ts
+import 'dotenv/config';
 import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import session from 'express-session';
 import prisma from './db';
 import path from 'path';
 import passportConfig from './auth';
+import { configureSession, trackSessionActivity } from './session';
 import { isAuthenticated } from './middleware/auth';
 import aiRoutes from './routes/ai.routes';
 import socialRoutes from './routes/social.routes';
 import scheduleRoutes from './routes/schedule.routes';
+import mediaRoutes from './routes/media.routes';
+import sessionRoutes from './routes/session.routes';
 import { SchedulerService } from './services/scheduler.service';
-
-dotenv.config();
+import { TokenHealthService } from './services/social/token-health.service';
 
 const getFrontendUrl = () => {
   if (process.env.NODE_ENV === 'production') {
@@ -32,24 +34,12 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // Session configuration
-app.use(
-  session({
-    secret: process.env.SESSION_SECRET || 'your-secret-key',
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: false, // Must be false for http://
-      httpOnly: true,
-      sameSite: 'lax',
-      maxAge: 24 * 60 * 60 * 1000, // 24 hours
-      domain: undefined, // Don't set domain to allow both localhost and 127.0.0.1
-    },
-  })
-);
+configureSession(app);
 
 // Passport initialization
 app.use(passportConfig.initialize());
 app.use(passportConfig.session());
+app.use(trackSessionActivity);
 
 // Serve static files from frontend build (production only)
 if (process.env.NODE_ENV === 'production') {
@@ -118,6 +108,12 @@ app.use('/api/social', socialRoutes);
 // Schedule routes
 app.use('/api/schedule', scheduleRoutes);
 
+// Media library routes
+app.use('/api/media', mediaRoutes);
+
+// Signed-in sessions (devices)
+app.use('/api/sessions', sessionRoutes);
+
 // Database endpoints (protected)
 app.get('/api/users', isAuthenticated, async (_req: Request, res: Response) => {
   try {
@@ -162,13 +158,20 @@ const server = app.listen(PORT, () => {
   console.log(`🚀 Server is running on http://127.0.0.1:${PORT}`);
 });
 
+// Background jobs run here too unless a separate worker process (src/worker.ts) handles them
+const runJobs = process.env.RUN_SCHEDULER_IN_WEB !== 'false';
+
 // Start the post scheduler
-const schedulerInterval = SchedulerService.startScheduler();
+const schedulerInterval = runJobs ? SchedulerService.startScheduler() : null;
+
+// Warn about expiring social tokens before scheduled posts hit them
+const tokenHealthInterval = runJobs ? TokenHealthService.start() : null;
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM signal received: closing HTTP server');
-  clearInterval(schedulerInterval);
+  if (tokenHealthInterval) clearInterval(tokenHealthInterval);
+  if (schedulerInterval) await SchedulerService.stopScheduler(schedulerInterval);
   server.close(async () => {
     await prisma.$disconnect();
     console.log('HTTP server closed');
@@ -1,40 +1,169 @@
 import { Router, Request, Response } from 'express';
 import { AIServiceFactory } from '../services/ai/factory';
-import { AIProvider, ContentType } from '../services/ai/types';
+import { AIRequest, AIResponse, ContentType } from '../services/ai/types';
+import { AIProviderRegistry } from '../services/ai/registry';
 import { isAuthenticated } from '../middleware/auth';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { AIServiceError } from '../services/ai/errors';
+import { BudgetExceededError, BudgetService } from '../services/budget.service';
+import { MediaService } from '../services/media.service';
+import { ContentValidationService, PLATFORM_RULES, SocialPlatform } from '../services/content-validation.service';
 
 const router = Router();
-const prisma = new PrismaClient();
-
-// Pricing per 1M tokens (as of Nov 2024)
-const PRICING = {
-  'openai': {
-    'gpt-4o-mini': { input: 0.150, output: 0.600 }, // per 1M tokens
-    'gpt-4o': { input: 2.50, output: 10.00 },
-    'gpt-4-turbo': { input: 10.00, output: 30.00 },
-    'dall-e-3': { standard: 0.040, hd: 0.080 }, // per image
-  },
-  'azure-openai': {
-    'gpt-4': { input: 10.00, output: 30.00 },
-    'gpt-35-turbo': { input: 0.50, output: 1.50 },
-  },
-  'gemini': {
-    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-  }
+
+const MAX_COMPARISON_TARGETS = 4;
+
+// House style for each platform when adapting a post
+const ADAPTATION_STYLE: Record<SocialPlatform, string> = {
+  twitter: 'Make it punchy and conversational. Links count as 23 characters.',
+  linkedin: 'Use a professional but warm tone, open with a strong first line and break the text into short paragraphs.',
+  mastodon: 'Keep it friendly and plain, without marketing speak. Write hashtags in CamelCase so screen readers can read them.',
+  bluesky: 'Keep it casual and direct, like a short conversation starter. Mention people by their full handle, e.g. @name.bsky.social.',
 };
 
-function calculateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
-  const providerPricing = PRICING[provider as keyof typeof PRICING];
-  if (!providerPricing) return 0;
+function buildAdaptationContext(platform: SocialPlatform): string {
+  const rules = PLATFORM_RULES[platform];
+  return `Rewrite the social media post you are given for ${rules.name}. ${ADAPTATION_STYLE[platform]} ` +
+    `It must be at most ${rules.maxLength} characters and use no more than ${rules.recommendedHashtags} hashtags. ` +
+    'Keep the original meaning, links and @mentions. Return ONLY the rewritten post, with no quotes, explanations or formatting.';
+}
+
+// Returns an error message when a generate request body is invalid
+function validateGenerateBody(body: any): string | null {
+  const { provider, contentType, prompt } = body;
+
+  if (!provider || !contentType || !prompt) {
+    return 'Missing required fields: provider, contentType, prompt';
+  }
+
+  if (!AIProviderRegistry.has(provider)) {
+    return `Invalid provider. Must be one of: ${AIProviderRegistry.ids().join(', ')}`;
+  }
+
+  if (!Object.values(ContentType).includes(contentType)) {
+    return `Invalid contentType. Must be one of: ${Object.values(ContentType).join(', ')}`;
+  }
+
+  return validateModelOptions(provider, contentType, body.context, body.options);
+}
+
+// Checks the requested model and options against the model's declared capabilities
+function validateModelOptions(
+  provider: string,
+  contentType: ContentType,
+  context: string | undefined,
+  options: AIRequest['options']
+): string | null {
+  const model = AIProviderRegistry.findModel(provider, contentType, options?.model);
+
+  if (!model) {
+    const available = (AIProviderRegistry.get(provider)?.models || [])
+      .filter(m => m.contentTypes.includes(contentType))
+      .map(m => m.id);
+    return available.length > 0
+      ? `Invalid model for ${provider} ${contentType}. Must be one of: ${available.join(', ')}`
+      : `${provider} does not support ${contentType} generation`;
+  }
+
+  const { temperature, maxTokens } = options || {};
+
+  if (temperature !== undefined) {
+    const range = model.temperature || { min: 0, max: 2 };
+    if (typeof temperature !== 'number' || temperature < range.min || temperature > range.max) {
+      return `temperature must be between ${range.min} and ${range.max} for ${model.id}`;
+    }
+  }
+
+  if (maxTokens !== undefined) {
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      return 'maxTokens must be a positive integer';
+    }
+    if (model.maxTokens && maxTokens > model.maxTokens) {
+      return `maxTokens must be at most ${model.maxTokens} for ${model.id}`;
+    }
+  }
+
+  if (context && model.supportsSystemPrompt === false) {
+    return `${model.id} does not support a system prompt; include the context in the prompt instead`;
+  }
+
+  return null;
+}
+
+// Answers 402 when a monthly budget is used up; returns false for any other error
+function handleBudgetError(error: unknown, res: Response): boolean {
+  if (!(error instanceof BudgetExceededError)) {
+    return false;
+  }
+
+  res.status(402).json({
+    error: error.message,
+    errorKind: 'budget_exceeded',
+    budget: error.budget,
+  });
+  return true;
+}
+
+// Calculate cost and persist the generation request for analytics
+async function recordGeneration(
+  userId: string | undefined,
+  prompt: string,
+  options: AIRequest['options'],
+  result: AIResponse,
+  timings: { responseTimeMs: number; firstTokenMs?: number },
+  comparisonGroupId?: string
+) {
+  const { provider, contentType } = result;
+  const modelUsed = result.model || options?.model || 'unknown';
+  const promptTokens = result.usage?.promptTokens || 0;
+  const completionTokens = result.usage?.completionTokens || 0;
+  const totalTokens = result.usage?.totalTokens || promptTokens + completionTokens;
+  const estimatedCost = AIProviderRegistry.estimateCost(provider, modelUsed, contentType, {
+    usage: result.usage,
+    imageCount: Array.isArray(result.content) ? result.content.length : 0,
+    quality: options?.quality,
+  });
+
+  let requestId = null;
+  if (userId) {
+    const savedRequest = await prisma.generationRequest.create({
+      data: {
+        userId,
+        provider,
+        requestedProvider: result.requestedProvider !== provider ? result.requestedProvider : null,
+        attempts: result.attempts as unknown as Prisma.InputJsonValue,
+        contentType,
+        prompt,
+        response: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
+        modelUsed,
+        responseTimeMs: timings.responseTimeMs,
+        firstTokenMs: timings.firstTokenMs,
+        promptTokens,
+        completionTokens,
+        totalTokens,
+        estimatedCost,
+        comparisonGroupId,
+      },
+    });
+    requestId = savedRequest.id;
+  }
 
-  const modelPricing = providerPricing[model as keyof typeof providerPricing] as any;
-  if (!modelPricing || !modelPricing.input) return 0;
+  // Provider image URLs expire, so copy the files into storage and serve our own URLs instead
+  let content = result.content;
+  if (userId && requestId && Array.isArray(content) && content.length > 0) {
+    content = await MediaService.saveGeneratedMedia(userId, requestId, content, prompt);
+    await prisma.generationRequest.update({
+      where: { id: requestId },
+      data: { response: JSON.stringify(content) },
+    });
+  }
 
-  const inputCost = (promptTokens / 1000000) * modelPricing.input;
-  const outputCost = (completionTokens / 1000000) * modelPricing.output;
-  return inputCost + outputCost;
+  return {
+    requestId,
+    content,
+    metrics: { ...timings, estimatedCost, totalTokens },
+  };
 }
 
 // Generate AI content endpoint
@@ -44,26 +173,13 @@ router.post('/generate', isAuthenticated, async (req: Request, res: Response): P
     const userId = (req.user as any)?.id;
 
     // Validation
-    if (!provider || !contentType || !prompt) {
-      res.status(400).json({
-        error: 'Missing required fields: provider, contentType, prompt',
-      });
+    const validationError = validateGenerateBody(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
       return;
     }
 
-    if (!Object.values(AIProvider).includes(provider)) {
-      res.status(400).json({
-        error: `Invalid provider. Must be one of: ${Object.values(AIProvider).join(', ')}`,
-      });
-      return;
-    }
-
-    if (!Object.values(ContentType).includes(contentType)) {
-      res.status(400).json({
-        error: `Invalid contentType. Must be one of: ${Object.values(ContentType).join(', ')}`,
-      });
-      return;
-    }
+    const budget = await BudgetService.assertWithinBudget(userId);
 
     // Track response time
     const startTime = Date.now();
@@ -79,43 +195,316 @@ router.post('/generate', isAuthenticated, async (req: Request, res: Response): P
 
     const responseTimeMs = Date.now() - startTime;
 
-    // Calculate cost
-    const modelUsed = result.model || options?.model || 'unknown';
-    const promptTokens = result.usage?.promptTokens || 0;
-    const completionTokens = result.usage?.completionTokens || 0;
-    const totalTokens = result.usage?.totalTokens || promptTokens + completionTokens;
-    const estimatedCost = calculateCost(provider, modelUsed, promptTokens, completionTokens);
-
-    // Save generation request to database
-    let requestId = null;
-    if (userId) {
-      const savedRequest = await prisma.generationRequest.create({
-        data: {
-          userId,
-          provider,
-          contentType,
-          prompt,
-          response: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
-          modelUsed,
-          responseTimeMs,
-          promptTokens,
-          completionTokens,
-          totalTokens,
-          estimatedCost,
-        },
-      });
-      requestId = savedRequest.id;
-    }
+    const { requestId, content, metrics } = await recordGeneration(userId, prompt, options, result, { responseTimeMs });
 
-    res.json({ ...result, requestId, metrics: { responseTimeMs, estimatedCost, totalTokens } });
+    res.json({ ...result, content, requestId, metrics, budgetWarning: budget.warning });
   } catch (error: any) {
+    if (handleBudgetError(error, res)) return;
     console.error('AI generation error:', error);
+    if (error instanceof AIServiceError) {
+      res.status(error.httpStatus).json({
+        error: error.message,
+        errorKind: error.kind,
+        attempts: error.attempts,
+      });
+      return;
+    }
     res.status(500).json({
       error: error.message || 'AI generation failed',
     });
   }
 });
 
+// Stream generated text as Server-Sent Events
+// Emits `token` events while the provider streams, then a single `done` (or `error`) event
+router.post('/generate/stream', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  const { provider, contentType, prompt, context, options } = req.body;
+  const userId = (req.user as any)?.id;
+
+  const validationError = validateGenerateBody(req.body);
+  if (validationError) {
+    res.status(400).json({ error: validationError });
+    return;
+  }
+
+  if (contentType !== ContentType.TEXT) {
+    res.status(400).json({ error: 'Streaming is only available for text content' });
+    return;
+  }
+
+  // Checked before the stream opens so a blocked request still gets a plain 402
+  let budgetWarning: string | null;
+  try {
+    budgetWarning = (await BudgetService.assertWithinBudget(userId)).warning;
+  } catch (error) {
+    if (handleBudgetError(error, res)) return;
+    console.error('Error checking AI budget:', error);
+    res.status(500).json({ error: 'Failed to check AI budget' });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering so tokens arrive immediately
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop the provider stream if the client cancels or disconnects
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  const startTime = Date.now();
+  let firstTokenMs: number | undefined;
+
+  try {
+    const result = await AIServiceFactory.stream(
+      { provider, contentType, prompt, context, options },
+      (token) => {
+        if (firstTokenMs === undefined) {
+          firstTokenMs = Date.now() - startTime;
+        }
+        sendEvent('token', { text: token });
+      },
+      abortController.signal
+    );
+
+    const responseTimeMs = Date.now() - startTime;
+
+    const { requestId, metrics } = await recordGeneration(userId, prompt, options, result, {
+      responseTimeMs,
+      firstTokenMs,
+    });
+
+    sendEvent('done', { ...result, requestId, metrics, budgetWarning });
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      console.log('AI stream cancelled by client');
+    } else {
+      console.error('AI streaming error:', error);
+      sendEvent('error', error instanceof AIServiceError
+        ? { error: error.message, errorKind: error.kind, attempts: error.attempts }
+        : { error: error.message || 'AI generation failed' });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+// Fan one prompt out to several providers/models in parallel and store the results as a comparison group.
+// Fallback is disabled so each column really comes from the provider it is labelled with.
+router.post('/compare', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { contentType, prompt, context, options, targets } = req.body;
+    const userId = (req.user as any).id;
+
+    if (!Array.isArray(targets) || targets.length < 2 || targets.length > MAX_COMPARISON_TARGETS) {
+      res.status(400).json({ error: `Provide between 2 and ${MAX_COMPARISON_TARGETS} targets to compare` });
+      return;
+    }
+
+    if (contentType !== ContentType.TEXT) {
+      res.status(400).json({ error: 'Comparisons are only available for text content' });
+      return;
+    }
+
+    if (typeof prompt !== 'string' || (context !== undefined && typeof context !== 'string')) {
+      res.status(400).json({ error: 'prompt and context must be text' });
+      return;
+    }
+
+    if (options !== undefined && (!options || typeof options !== 'object' || Array.isArray(options))) {
+      res.status(400).json({ error: 'options must be an object' });
+      return;
+    }
+
+    // Each target is a provider plus an optional model
+    for (const target of targets) {
+      if (!target || typeof target !== 'object' || typeof target.provider !== 'string' ||
+        (target.model !== undefined && typeof target.model !== 'string')) {
+        res.status(400).json({ error: 'Each target must be an object with a provider and an optional model' });
+        return;
+      }
+    }
+
+    // Shared options apply to every target as given: a value one of the models can't take is rejected, not clamped
+    const requests: AIRequest[] = targets.map((target: { provider: string; model?: string }) => ({
+      provider: target.provider,
+      contentType,
+      prompt,
+      context,
+      options: { ...options, model: target.model },
+      fallback: false,
+    }));
+
+    for (const request of requests) {
+      const validationError = validateGenerateBody(request);
+      if (validationError) {
+        res.status(400).json({ error: `${request.provider}: ${validationError}` });
+        return;
+      }
+    }
+
+    // Every target spends a generation, so the whole fan-out has to fit in what is left of the budget
+    const estimatedCost = requests.reduce((total, request) => total + AIProviderRegistry.estimateRequestCost(request), 0);
+    const budget = await BudgetService.assertWithinBudget(userId, estimatedCost);
+
+    const group = await prisma.comparisonGroup.create({
+      data: { userId, prompt, contentType },
+    });
+
+    // Stop retrying the targets if the client gives up waiting
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    const results = await Promise.all(requests.map(async (request) => {
+      const startTime = Date.now();
+      try {
+        const result = await AIServiceFactory.generate(request, abortController.signal);
+        const responseTimeMs = Date.now() - startTime;
+        const { requestId, metrics } = await recordGeneration(
+          userId, prompt, request.options, result, { responseTimeMs }, group.id
+        );
+        return { ...result, requestId, metrics };
+      } catch (error: any) {
+        console.error(`AI comparison error (${request.provider}):`, error);
+        return {
+          provider: request.provider,
+          model: request.options?.model,
+          error: error.message || 'AI generation failed',
+          errorKind: error instanceof AIServiceError ? error.kind : undefined,
+        };
+      }
+    }));
+
+    res.json({ groupId: group.id, results, budgetWarning: budget.warning });
+  } catch (error: any) {
+    if (handleBudgetError(error, res)) return;
+    console.error('AI comparison error:', error);
+    res.status(500).json({
+      error: error.message || 'AI comparison failed',
+    });
+  }
+});
+
+// Record which output of a comparison the user preferred
+router.post('/compare/:groupId/winner', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { groupId } = req.params;
+    const { requestId } = req.body;
+    const userId = (req.user as any).id;
+
+    const group = await prisma.comparisonGroup.findFirst({
+      where: { id: groupId, userId },
+      include: { generationRequests: { select: { id: true } } },
+    });
+
+    if (!group) {
+      res.status(404).json({ error: 'Comparison not found' });
+      return;
+    }
+
+    if (!group.generationRequests.some(request => request.id === requestId)) {
+      res.status(400).json({ error: 'requestId is not part of this comparison' });
+      return;
+    }
+
+    const updated = await prisma.comparisonGroup.update({
+      where: { id: groupId },
+      data: { winnerId: requestId, votedAt: new Date() },
+    });
+
+    res.json({ groupId: updated.id, winnerId: updated.winnerId });
+  } catch (error: any) {
+    console.error('Error recording comparison winner:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to record winner',
+    });
+  }
+});
+
+// Rewrite a post for each platform it will be published to, e.g. a short tweet and a longer LinkedIn post
+router.post('/adapt', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { content, platform, provider, options } = req.body;
+    const userId = (req.user as any)?.id;
+
+    if (!content || !provider) {
+      res.status(400).json({ error: 'Missing required fields: content, provider' });
+      return;
+    }
+
+    const platforms = ContentValidationService.platformsFor(platform || 'both');
+    if (platforms.length === 0) {
+      res.status(400).json({ error: `Invalid platform. Must be both or a comma-separated list of: ${Object.keys(PLATFORM_RULES).join(', ')}` });
+      return;
+    }
+
+    const validationError = validateGenerateBody({ provider, contentType: ContentType.TEXT, prompt: content, options });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const budget = await BudgetService.assertWithinBudget(userId);
+    const model = AIProviderRegistry.findModel(provider, ContentType.TEXT, options?.model);
+    const useSystemPrompt = model?.supportsSystemPrompt !== false;
+
+    const variants = await Promise.all(platforms.map(async target => {
+      const context = buildAdaptationContext(target);
+      const startTime = Date.now();
+      const result = await AIServiceFactory.generate({
+        provider,
+        contentType: ContentType.TEXT,
+        prompt: useSystemPrompt ? content : `${context}\n\n${content}`,
+        context: useSystemPrompt ? context : undefined,
+        options,
+      });
+
+      const { requestId, metrics } = await recordGeneration(userId, content, options, result, {
+        responseTimeMs: Date.now() - startTime,
+      });
+      const adapted = (result.content as string).trim();
+
+      return {
+        platform: target,
+        content: adapted,
+        requestId,
+        metrics,
+        validation: ContentValidationService.validate(target, { content: adapted }),
+      };
+    }));
+
+    res.json({ variants, budgetWarning: budget.warning });
+  } catch (error: any) {
+    if (handleBudgetError(error, res)) return;
+    console.error('Error adapting content:', error);
+    if (error instanceof AIServiceError) {
+      res.status(error.httpStatus).json({
+        error: error.message,
+        errorKind: error.kind,
+        attempts: error.attempts,
+      });
+      return;
+    }
+    res.status(500).json({
+      error: error.message || 'Failed to adapt content',
+    });
+  }
+});
+
 // Get recent generation requests
 router.get('/recent', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -133,6 +522,7 @@ router.get('/recent', isAuthenticated, async (req: Request, res: Response): Prom
       select: {
         id: true,
         provider: true,
+        requestedProvider: true,
         prompt: true,
         response: true,
         contentType: true,
@@ -141,6 +531,7 @@ router.get('/recent', isAuthenticated, async (req: Request, res: Response): Prom
         twitterPostId: true,
         modelUsed: true,
         responseTimeMs: true,
+        firstTokenMs: true,
         totalTokens: true,
         estimatedCost: true,
       },
@@ -186,6 +577,7 @@ router.get('/analytics', isAuthenticated, async (req: Request, res: Response): P
       if (!stats[req.provider]) {
         stats[req.provider] = {
           provider: req.provider,
+          name: AIProviderRegistry.get(req.provider)?.name || req.provider,
           totalRequests: 0,
           totalCost: 0,
           totalTokens: 0,
@@ -195,6 +587,9 @@ router.get('/analytics', isAuthenticated, async (req: Request, res: Response): P
           avgTokens: 0,
           postsCreated: 0,
           modelsUsed: {} as Record<string, number>,
+          comparisons: 0,
+          wins: 0,
+          winRate: null,
         };
       }
 
@@ -213,8 +608,33 @@ router.get('/analytics', isAuthenticated, async (req: Request, res: Response): P
       }
     });
 
+    // Win rate: how often a provider's output was picked in comparisons it took part in
+    const votedGroups = await prisma.comparisonGroup.findMany({
+      where: { userId, winnerId: { not: null } },
+      select: {
+        winnerId: true,
+        generationRequests: { select: { id: true, provider: true } },
+      },
+    });
+
+    votedGroups.forEach(group => {
+      const participants = new Set(group.generationRequests.map(request => request.provider));
+      const winner = group.generationRequests.find(request => request.id === group.winnerId);
+
+      participants.forEach(provider => {
+        if (!stats[provider]) return;
+        stats[provider].comparisons++;
+        if (winner?.provider === provider) {
+          stats[provider].wins++;
+        }
+      });
+    });
+
     // Calculate averages
     Object.values(stats).forEach((providerStats: any) => {
+      if (providerStats.comparisons > 0) {
+        providerStats.winRate = Math.round((providerStats.wins / providerStats.comparisons) * 1000) / 10;
+      }
       if (providerStats.totalRequests > 0) {
         providerStats.avgResponseTime = Math.round(providerStats.totalResponseTime / providerStats.totalRequests);
         providerStats.avgCost = providerStats.totalCost / providerStats.totalRequests;
@@ -238,33 +658,28 @@ router.get('/analytics', isAuthenticated, async (req: Request, res: Response): P
   }
 });
 
-// Get available providers
-router.get('/providers', isAuthenticated, (_req: Request, res: Response) => {
-  const providers = [];
-
-  if (process.env.OPENAI_API_KEY) {
-    providers.push({
-      id: AIProvider.OPENAI,
-      name: 'OpenAI',
-      supports: [ContentType.TEXT, ContentType.IMAGE],
-    });
-  }
-
-  if (process.env.AZURE_OPENAI_API_KEY) {
-    providers.push({
-      id: AIProvider.AZURE_OPENAI,
-      name: 'Azure OpenAI',
-      supports: [ContentType.TEXT, ContentType.IMAGE],
+// Get this month's AI budget status for the current user
+router.get('/budget', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const summary = await BudgetService.getSummary(userId);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Error fetching AI budget:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch AI budget',
     });
   }
+});
 
-  if (process.env.GEMINI_API_KEY) {
-    providers.push({
-      id: AIProvider.GEMINI,
-      name: 'Google Gemini',
-      supports: [ContentType.TEXT],
-    });
-  }
+// Get available providers (those with their required environment configured)
+router.get('/providers', isAuthenticated, (_req: Request, res: Response) => {
+  const providers = AIProviderRegistry.listConfigured().map(definition => ({
+    id: definition.id,
+    name: definition.name,
+    supports: definition.supports,
+    models: definition.models,
+  }));
 
   res.json({ providers });
 });
@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { isAuthenticated } from '../middleware/auth';
+import { MediaService } from '../services/media.service';
+
+const router = Router();
+
+// List the current user's media library, newest first
+router.get('/', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined;
+    const before = req.query.before ? new Date(String(req.query.before)) : undefined;
+
+    if (before && isNaN(before.getTime())) {
+      res.status(400).json({ error: 'before must be a date' });
+      return;
+    }
+
+    const assets = await MediaService.list(userId, { limit, before });
+
+    res.json({ assets: assets.map(asset => MediaService.toResponse(asset)) });
+  } catch (error: any) {
+    console.error('Error fetching media:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch media' });
+  }
+});
+
+// Serve a stored file to its owner
+router.get('/:id/file', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const file = await MediaService.getFile(userId, req.params.id);
+
+    if (!file) {
+      res.status(404).json({ error: 'Media not found' });
+      return;
+    }
+
+    res.set({
+      'Content-Type': file.mimeType,
+      'Content-Length': String(file.data.length),
+      // Files never change once stored, but they are private to the user
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      // Never let a stored file run as a page on our origin, whatever its type
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.send(file.data);
+  } catch (error: any) {
+    console.error('Error serving media:', error);
+    res.status(500).json({ error: error.message || 'Failed to load media' });
+  }
+});
+
+// Delete an asset and its stored file
+router.delete('/:id', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const deleted = await MediaService.delete(userId, req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Media not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting media:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete media' });
+  }
+});
+
+export default router;
@@ -1,9 +1,150 @@
 import { Router, Request, Response } from 'express';
 import { isAuthenticated } from '../middleware/auth';
-import { PrismaClient } from '@prisma/client';
+import { ConnectedAccount } from '@prisma/client';
+import prisma from '../db';
+import { ContentValidationService, PLATFORM_RULES, SocialPlatform, ValidationResult } from '../services/content-validation.service';
+import { ConnectedAccountService } from '../services/social/account.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { isSegmentList, MAX_THREAD_TWEETS } from '../utils/tweet-text';
 
 const router = Router();
-const prisma = new PrismaClient();
+
+interface VariantInput {
+  platform: SocialPlatform;
+  content: string;
+  mediaUrls: string[];
+  threadSegments: string[];
+  contentWarning: string | null;
+  authorUrn: string | null;
+}
+
+// LinkedIn company page a variant can be posted as
+const ORGANIZATION_URN_PATTERN = /^urn:li:organization:\d+$/;
+
+// Checks a variant's shape, then its content against the platform's rules.
+// Returns an error message, plus the validation result when the content itself is the problem.
+function validateVariant(variant: any): { error: string; validation?: ValidationResult } | null {
+  const { platform, content, mediaUrls, threadSegments, contentWarning, authorUrn } = variant;
+
+  if (!ContentValidationService.isPlatform(platform)) {
+    return { error: `Invalid variant platform. Must be one of: ${Object.keys(PLATFORM_RULES).join(', ')}` };
+  }
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return { error: `${platform}: content is required` };
+  }
+
+  if (mediaUrls !== undefined && !Array.isArray(mediaUrls)) {
+    return { error: `${platform}: mediaUrls must be an array` };
+  }
+
+  if (threadSegments !== undefined && (!Array.isArray(threadSegments) || threadSegments.length > MAX_THREAD_TWEETS)) {
+    return { error: `${platform}: threadSegments must be an array of at most ${MAX_THREAD_TWEETS} tweets` };
+  }
+
+  if (threadSegments !== undefined && !isSegmentList(threadSegments)) {
+    return { error: `${platform}: every thread segment must be non-empty text` };
+  }
+
+  if (!PLATFORM_RULES[platform].threads && threadSegments?.length > 0) {
+    return { error: `${platform}: ${PLATFORM_RULES[platform].name} posts can't be threads` };
+  }
+
+  if (contentWarning && (typeof contentWarning !== 'string' || platform !== 'mastodon')) {
+    return { error: `${platform}: only Mastodon variants can have a content warning` };
+  }
+
+  if (authorUrn && platform !== 'linkedin') {
+    return { error: `${platform}: only LinkedIn variants can post as a company page` };
+  }
+
+  if (authorUrn && (typeof authorUrn !== 'string' || !ORGANIZATION_URN_PATTERN.test(authorUrn))) {
+    return { error: `${platform}: authorUrn must be a company page URN like urn:li:organization:123` };
+  }
+
+  const validation = ContentValidationService.validate(platform, {
+    content,
+    mediaCount: mediaUrls?.length,
+    threadSegments,
+    contentWarning,
+  });
+  if (!validation.valid) {
+    return { error: `${platform}: ${validation.errors[0]}`, validation };
+  }
+
+  return null;
+}
+
+// Explicit `variants` win; otherwise every targeted platform gets the shared content and media
+function buildVariants(body: any): VariantInput[] {
+  const platforms = ContentValidationService.platformsFor(body.platform);
+
+  if (Array.isArray(body.variants)) {
+    return body.variants
+      .filter((variant: any) => platforms.includes(variant?.platform))
+      .map((variant: any) => ({
+        platform: variant.platform,
+        content: variant.content,
+        mediaUrls: variant.mediaUrls || [],
+        threadSegments: variant.threadSegments || [],
+        contentWarning: variant.contentWarning || null,
+        authorUrn: variant.authorUrn || null,
+      }));
+  }
+
+  return platforms.map(platform => ({
+    platform,
+    content: body.content,
+    mediaUrls: body.mediaUrls || [],
+    threadSegments: PLATFORM_RULES[platform].threads ? body.threadSegments || [] : [],
+    contentWarning: platform === 'mastodon' ? body.contentWarning || null : null,
+    authorUrn: platform === 'linkedin' ? body.authorUrn || null : null,
+  }));
+}
+
+// Variants come back with the account they publish as, minus its tokens
+const VARIANT_INCLUDE = {
+  orderBy: { platform: 'desc' as const },
+  include: { account: { select: { id: true, nickname: true, username: true, displayName: true } } },
+};
+
+// Accounts to publish as: those in accountIds, or each platform's default account when none are given.
+// Returns an error message when the accounts don't match the targeted platforms.
+async function resolveAccounts(
+  userId: string,
+  platforms: SocialPlatform[],
+  accountIds: unknown
+): Promise<ConnectedAccount[] | string> {
+  if (accountIds !== undefined && !Array.isArray(accountIds)) {
+    return 'accountIds must be an array';
+  }
+
+  let accounts: ConnectedAccount[];
+  if (Array.isArray(accountIds) && accountIds.length > 0) {
+    const ids = [...new Set(accountIds as string[])];
+    accounts = await prisma.connectedAccount.findMany({ where: { userId, id: { in: ids } } });
+    if (accounts.length !== ids.length) {
+      return 'Account not found';
+    }
+  } else {
+    const defaults = await Promise.all(platforms.map(platform => ConnectedAccountService.find(userId, platform)));
+    accounts = defaults.filter((account): account is ConnectedAccount => !!account);
+  }
+
+  for (const account of accounts) {
+    if (!platforms.includes(account.platform as SocialPlatform)) {
+      return `${ConnectedAccountService.label(account)} is a ${account.platform} account, which this post doesn't target`;
+    }
+  }
+
+  for (const platform of platforms) {
+    if (!accounts.some(account => account.platform === platform)) {
+      return `No ${PLATFORM_RULES[platform].name} account to publish as. Please connect one in your Profile.`;
+    }
+  }
+
+  return accounts;
+}
 
 // Schedule a post
 router.post('/', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
@@ -17,8 +158,29 @@ router.post('/', isAuthenticated, async (req: Request, res: Response): Promise<v
       return;
     }
 
-    if (!['twitter', 'linkedin', 'both'].includes(platform)) {
-      res.status(400).json({ error: 'Invalid platform. Must be twitter, linkedin, or both' });
+    const expected = ContentValidationService.platformsFor(platform);
+    if (expected.length === 0) {
+      res.status(400).json({ error: `Invalid platform. Must be both or a comma-separated list of: ${Object.keys(PLATFORM_RULES).join(', ')}` });
+      return;
+    }
+
+    const variants = buildVariants(req.body);
+    if (variants.length !== expected.length || expected.some(target => !variants.some(variant => variant.platform === target))) {
+      res.status(400).json({ error: `variants must include one entry for each of: ${expected.join(', ')}` });
+      return;
+    }
+
+    for (const variant of variants) {
+      const invalid = validateVariant(variant);
+      if (invalid) {
+        res.status(400).json(invalid);
+        return;
+      }
+    }
+
+    const accounts = await resolveAccounts(userId, expected, req.body.accountIds);
+    if (typeof accounts === 'string') {
+      res.status(400).json({ error: accounts });
       return;
     }
 
@@ -35,7 +197,15 @@ router.post('/', isAuthenticated, async (req: Request, res: Response): Promise<v
         platform,
         scheduledFor: scheduledDate,
         generationRequestId,
+        // Each account publishes its platform's variant
+        variants: {
+          create: accounts.map(account => ({
+            ...variants.find(variant => variant.platform === account.platform)!,
+            accountId: account.id,
+          })),
+        },
       },
+      include: { variants: VARIANT_INCLUDE },
     });
 
     res.json({ success: true, scheduledPost });
@@ -59,6 +229,7 @@ router.get('/', isAuthenticated, async (req: Request, res: Response): Promise<vo
     const scheduledPosts = await prisma.scheduledPost.findMany({
       where,
       orderBy: { scheduledFor: 'asc' },
+      include: { variants: VARIANT_INCLUDE },
     });
 
     res.json({ scheduledPosts });
@@ -83,16 +254,46 @@ router.delete('/:id', isAuthenticated, async (req: Request, res: Response): Prom
       return;
     }
 
-    if (scheduledPost.status === 'posted') {
+    if (scheduledPost.status === 'posted' || scheduledPost.status === 'partial') {
       res.status(400).json({ error: 'Cannot cancel a post that has already been posted' });
       return;
     }
 
-    await prisma.scheduledPost.update({
-      where: { id },
-      data: { status: 'cancelled' },
+    if (scheduledPost.status === 'processing') {
+      res.status(400).json({ error: 'Cannot cancel a post while it is being published' });
+      return;
+    }
+
+    // Variants that already went out stay posted, so a post that retried after some platforms succeeded ends up
+    // partial rather than cancelled. The status check and update happen together, so a post the scheduler just
+    // claimed isn't cancelled under it.
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.scheduledPost.updateMany({
+        where: { id, status: { notIn: ['posted', 'partial', 'processing'] } },
+        data: { nextAttemptAt: null },
+      });
+      if (count === 0) return false;
+
+      await tx.scheduledPostVariant.updateMany({
+        where: { scheduledPostId: id, status: { in: ['pending', 'retrying'] } },
+        data: { status: 'cancelled', nextAttemptAt: null },
+      });
+      const variants = await tx.scheduledPostVariant.findMany({
+        where: { scheduledPostId: id },
+        select: { status: true },
+      });
+      await tx.scheduledPost.update({
+        where: { id },
+        data: { status: SchedulerService.rollUpStatus(variants) },
+      });
+      return true;
     });
 
+    if (!cancelled) {
+      res.status(400).json({ error: 'Cannot cancel a post while it is being published' });
+      return;
+    }
+
     res.json({ success: true });
   } catch (error: any) {
     console.error('Cancel scheduled post error:', error);
@@ -100,6 +301,82 @@ router.delete('/:id', isAuthenticated, async (req: Request, res: Response): Prom
   }
 });
 
+// Retry a post's unsuccessful variants now, with a fresh set of automatic attempts. Variants that were posted
+// are left alone; `variantIds` narrows the retry to some of the failed ones, e.g. a single platform. Retrying
+// variants left out of `variantIds` keep their attempt count and backoff; the post is picked up now for the
+// chosen ones and the scheduler recomputes its next attempt from whatever is still waiting afterwards.
+router.post('/:id/retry', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { variantIds } = req.body;
+    const userId = (req.user as any)?.id;
+
+    const scheduledPost = await prisma.scheduledPost.findFirst({
+      where: { id, userId },
+      include: { variants: true },
+    });
+
+    if (!scheduledPost) {
+      res.status(404).json({ error: 'Scheduled post not found' });
+      return;
+    }
+
+    if (
+      variantIds !== undefined &&
+      (!Array.isArray(variantIds) || variantIds.length === 0 || variantIds.some(variantId => typeof variantId !== 'string'))
+    ) {
+      res.status(400).json({ error: 'variantIds must be a non-empty array of variant ids' });
+      return;
+    }
+
+    const retryable = scheduledPost.variants
+      .filter(variant => variant.status === 'failed' || variant.status === 'retrying')
+      .map(variant => variant.id);
+    const toRetry: string[] = variantIds ?? retryable;
+    if (toRetry.length === 0) {
+      res.status(400).json({ error: 'This post has no failed variants to retry' });
+      return;
+    }
+    if (toRetry.some(variantId => !retryable.includes(variantId))) {
+      res.status(400).json({ error: 'Can only retry failed or retrying variants of this post' });
+      return;
+    }
+
+    const now = new Date();
+    // The status check and update happen together, so a post the scheduler just claimed isn't retried twice
+    const retried = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.scheduledPost.updateMany({
+        where: { id, status: { in: ['failed', 'partial', 'retrying'] } },
+        data: { status: 'retrying', nextAttemptAt: now },
+      });
+      if (count === 0) return false;
+
+      await tx.scheduledPostVariant.updateMany({
+        where: { id: { in: toRetry }, scheduledPostId: id, status: { in: ['failed', 'retrying'] } },
+        data: { status: 'retrying', attempts: 0, nextAttemptAt: now },
+      });
+      return true;
+    });
+
+    if (!retried) {
+      res.status(400).json({ error: 'Can only retry failed, partially posted or retrying posts' });
+      return;
+    }
+
+    SchedulerService.wake();
+
+    const updatedPost = await prisma.scheduledPost.findUnique({
+      where: { id },
+      include: { variants: VARIANT_INCLUDE },
+    });
+
+    res.json({ success: true, scheduledPost: updatedPost });
+  } catch (error: any) {
+    console.error('Retry scheduled post error:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry scheduled post' });
+  }
+});
+
 // Update scheduled post time
 router.patch('/:id', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -130,6 +407,7 @@ router.patch('/:id', isAuthenticated, async (req: Request, res: Response): Promi
     const updatedPost = await prisma.scheduledPost.update({
       where: { id },
       data: { scheduledFor: newScheduledDate },
+      include: { variants: VARIANT_INCLUDE },
     });
 
     res.json({ success: true, scheduledPost: updatedPost });
@@ -139,4 +417,58 @@ router.patch('/:id', isAuthenticated, async (req: Request, res: Response): Promi
   }
 });
 
+// Edit one account's variant of a pending post
+router.patch('/:id/variants/:variantId', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, variantId } = req.params;
+    const userId = (req.user as any)?.id;
+
+    const variant = await prisma.scheduledPostVariant.findFirst({
+      where: { id: variantId, scheduledPost: { id, userId } },
+    });
+
+    if (!variant) {
+      res.status(404).json({ error: 'Scheduled post variant not found' });
+      return;
+    }
+
+    if (variant.status !== 'pending') {
+      res.status(400).json({ error: 'Can only edit pending variants' });
+      return;
+    }
+
+    // Fields left out of the body keep their current values
+    const updated = {
+      platform: variant.platform,
+      content: req.body.content ?? variant.content,
+      mediaUrls: req.body.mediaUrls ?? variant.mediaUrls,
+      threadSegments: req.body.threadSegments ?? variant.threadSegments,
+      contentWarning: req.body.contentWarning !== undefined ? req.body.contentWarning || null : variant.contentWarning,
+      authorUrn: req.body.authorUrn !== undefined ? req.body.authorUrn || null : variant.authorUrn,
+    };
+
+    const invalid = validateVariant(updated);
+    if (invalid) {
+      res.status(400).json(invalid);
+      return;
+    }
+
+    const updatedVariant = await prisma.scheduledPostVariant.update({
+      where: { id: variant.id },
+      data: {
+        content: updated.content,
+        mediaUrls: updated.mediaUrls,
+        threadSegments: updated.threadSegments,
+        contentWarning: updated.contentWarning,
+        authorUrn: updated.authorUrn,
+      },
+    });
+
+    res.json({ success: true, variant: updatedVariant });
+  } catch (error: any) {
+    console.error('Update scheduled post variant error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update scheduled post variant' });
+  }
+});
+
 export default router;
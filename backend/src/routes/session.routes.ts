@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { isAuthenticated } from '../middleware/auth';
+import { SessionService } from '../services/session.service';
+
+const router = Router();
+
+// List the devices the current user is signed in on
+router.get('/', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const sessions = await SessionService.list(userId, req.sessionID);
+
+    res.json({ sessions });
+  } catch (error: any) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out every other device
+router.delete('/', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const revoked = await SessionService.revokeOthers(userId, req.sessionID);
+
+    res.json({ success: true, revoked });
+  } catch (error: any) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: error.message || 'Failed to revoke sessions' });
+  }
+});
+
+// Sign out one other device; the current session ends with /auth/logout instead
+router.delete('/:id', isAuthenticated, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req.user as any).id;
+    const revoked = await SessionService.revoke(userId, req.params.id, req.sessionID);
+
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: error.message || 'Failed to revoke session' });
+  }
+});
+
+export default router;
@@ -1,8 +1,16 @@
 import { Router, Request, Response } from 'express';
+import { ConnectedAccount } from '@prisma/client';
 import prisma from '../db';
-import { TwitterService } from '../services/twitter.service';
-import { LinkedInService } from '../services/linkedin.service';
+import { ThreadPostError } from '../services/twitter.service';
 import { CanvaService } from '../services/canva.service';
+import { MediaService } from '../services/media.service';
+import { ContentValidationService, PLATFORM_RULES, ValidationResult } from '../services/content-validation.service';
+import { SocialConnectorRegistry } from '../services/social/registry';
+import { ConnectedAccountService } from '../services/social/account.service';
+import { TokenHealthService } from '../services/social/token-health.service';
+import { OAuthStateError, OAuthStateService } from '../services/social/oauth-state.service';
+import { PublishResult, SocialConnector } from '../services/social/types';
+import { checkThread, isSegmentList, MAX_THREAD_TWEETS, splitIntoThread } from '../utils/tweet-text';
 
 const router = Router();
 
@@ -14,486 +22,398 @@ const getFrontendUrl = () => {
   return 'http://127.0.0.1:3000';
 };
 
-// Store temporary OAuth tokens in memory (in production, use Redis or database)
-const oauthTokenStore = new Map<string, { secret: string; userId: string }>();
-const linkedinStateStore = new Map<string, string>(); // state -> userId
-const canvaStateStore = new Map<string, { userId: string; codeVerifier: string }>(); // state -> userId + codeVerifier
+const getCallbackUrl = (platform: string) =>
+  `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/${platform}/callback`;
 
-// Get Twitter authorization status
-router.get('/twitter/status', async (req: Request, res: Response): Promise<void> => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ error: 'Not authenticated' });
-      return;
-    }
-
-    const userId = (req.user as any).id;
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        twitterAccessToken: true,
-        twitterAccessSecret: true,
-        twitterUsername: true,
-        twitterUserId: true,
-      },
-    });
+// Answers 400 with the platform's validation issues; returns false when the content is valid
+function rejectInvalidContent(result: ValidationResult, res: Response): boolean {
+  if (result.valid) {
+    return false;
+  }
 
-    const isConnected = !!(user?.twitterAccessToken && user?.twitterAccessSecret);
+  res.status(400).json({ error: result.errors[0], validation: result });
+  return true;
+}
 
-    res.json({
-      isConnected,
-      username: user?.twitterUsername || null,
-      userId: user?.twitterUserId || null,
+// Looks up the connector named in the URL, answering 404 when there is none
+function findConnector(req: Request, res: Response): SocialConnector | null {
+  const connector = SocialConnectorRegistry.get(req.params.platform);
+  if (!connector) {
+    res.status(404).json({ error: `Unknown platform: ${req.params.platform}` });
+    return null;
+  }
+  return connector;
+}
+
+// GenerationRequest tracks posting for Twitter and LinkedIn; other platforms aren't recorded there
+async function markGenerationPosted(generationRequestId: string | undefined, platform: string, ids: string[], author?: string) {
+  if (!generationRequestId || ids.length === 0) return;
+
+  const postedAt = new Date();
+  const data = platform === 'twitter'
+    ? { postedToTwitter: true, twitterPostId: ids[0], twitterThreadIds: ids, twitterPostedAt: postedAt }
+    : platform === 'linkedin'
+      ? { postedToLinkedIn: true, linkedinPostId: ids[0], linkedinAuthorUrn: author ?? null, linkedinPostedAt: postedAt }
+      : null;
+
+  if (data) {
+    await prisma.generationRequest.update({
+      where: { id: generationRequestId },
+      data,
     });
-  } catch (error: any) {
-    console.error('Twitter status error:', error);
-    res.status(500).json({ error: 'Failed to fetch Twitter status' });
   }
-});
+}
+
+interface AccountPublishResult {
+  accountId: string;
+  account: string;
+  post?: PublishResult;
+  error?: string;
+  postedIds?: string[]; // Part of a thread that went out before it failed
+}
+
+// Publish through a connector to each of the accounts in body.accountIds (the platform's default
+// account when none are given), as body.authorUrn when given; threadSegments turns the post into a thread
+async function publishPost(req: Request, res: Response, connector: SocialConnector, threadSegments?: string[]) {
+  const { text, mediaUrls, contentWarning, accountIds, authorUrn, generationRequestId } = req.body;
+  const userId = (req.user as any).id;
 
-// Disconnect Twitter
-router.post('/twitter/disconnect', async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.user) {
-      res.status(401).json({ error: 'Not authenticated' });
+    if (!connector.publish) {
+      res.status(400).json({ error: `${connector.name} does not support posting` });
+      return;
+    }
+
+    if (threadSegments !== undefined) {
+      if (!Array.isArray(threadSegments) || threadSegments.length === 0) {
+        res.status(400).json({ error: 'segments must be a non-empty array of posts' });
+        return;
+      }
+      if (!isSegmentList(threadSegments)) {
+        res.status(400).json({ error: 'Every thread segment must be non-empty text' });
+        return;
+      }
+      if (threadSegments.length > MAX_THREAD_TWEETS) {
+        res.status(400).json({ error: `Threads are limited to ${MAX_THREAD_TWEETS} posts` });
+        return;
+      }
+      if (ContentValidationService.isPlatform(connector.id) && !PLATFORM_RULES[connector.id].threads) {
+        res.status(400).json({ error: `${connector.name} posts can't be threads` });
+        return;
+      }
+    }
+
+    const content = threadSegments ? threadSegments.join('\n') : text;
+    if (!content) {
+      res.status(400).json({ error: 'Text is required' });
       return;
     }
 
-    const userId = (req.user as any).id;
-    
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        twitterAccessToken: null,
-        twitterAccessSecret: null,
-        twitterUsername: null,
-        twitterUserId: null,
-      },
-    });
-
-    res.json({ success: true, message: 'Twitter account disconnected' });
-  } catch (error: any) {
-    console.error('Twitter disconnect error:', error);
-    res.status(500).json({ error: 'Failed to disconnect Twitter account' });
-  }
-});
-
-// Initiate Twitter OAuth flow
-router.get('/twitter/connect', async (req: Request, res: Response): Promise<void> => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ error: 'Not authenticated' });
+    if (accountIds !== undefined && !Array.isArray(accountIds)) {
+      res.status(400).json({ error: 'accountIds must be an array' });
       return;
     }
 
-    // Check for Twitter API credentials
-    if (!process.env.TWITTER_API_KEY || !process.env.TWITTER_API_SECRET) {
-      console.error('Twitter API credentials not configured');
-      res.status(500).json({ 
-        error: 'Twitter API credentials not configured. Please add TWITTER_API_KEY and TWITTER_API_SECRET to your .env file.' 
-      });
+    if (authorUrn && !connector.listAuthors) {
+      res.status(400).json({ error: `${connector.name} posts can't choose an author` });
       return;
     }
 
-    const callbackUrl = `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/twitter/callback`;
-    console.log('Initiating Twitter OAuth with callback:', callbackUrl);
-    
-    const authLink = await TwitterService.generateAuthUrl(callbackUrl);
-
-    // Store the oauth token secret temporarily
-    oauthTokenStore.set(authLink.oauth_token, {
-      secret: authLink.oauth_token_secret,
-      userId: (req.user as any).id,
-    });
-
-    res.json({ authUrl: authLink.url });
-  } catch (error: any) {
-    console.error('Twitter OAuth error:', error);
-    res.status(500).json({ 
-      error: 'Failed to initiate Twitter authentication',
-      details: error.message || 'Unknown error'
-    });
-  }
-});
-
-// Twitter OAuth callback
-router.get('/twitter/callback', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { oauth_token, oauth_verifier } = req.query;
-
-    if (!oauth_token || !oauth_verifier) {
-      res.status(400).send('Missing OAuth parameters');
-      return;
+    if (ContentValidationService.isPlatform(connector.id)) {
+      const validation = ContentValidationService.validate(connector.id, {
+        content,
+        mediaCount: mediaUrls?.length,
+        threadSegments,
+        contentWarning,
+      });
+      if (rejectInvalidContent(validation, res)) return;
     }
 
-    // Retrieve stored token secret
-    const stored = oauthTokenStore.get(oauth_token as string);
-    if (!stored) {
-      res.status(400).send('Invalid OAuth token');
+    const requested: Array<string | undefined> = accountIds?.length ? [...new Set<string>(accountIds)] : [undefined];
+    const accounts = await Promise.all(requested.map(id => ConnectedAccountService.find(userId, connector.id, id)));
+    if (accounts.some(account => !account)) {
+      res.status(404).json({
+        error: accountIds?.length
+          ? `${connector.name} account not found`
+          : `${connector.name} account not connected. Please connect your ${connector.name} account in your Profile.`,
+      });
       return;
     }
 
-    // Exchange for access token
-    const { accessToken, accessSecret, userId, screenName } = await TwitterService.getAccessToken(
-      oauth_token as string,
-      oauth_verifier as string,
-      stored.secret
+    const media = mediaUrls && mediaUrls.length > 0 ? await MediaService.resolveMedia(userId, mediaUrls) : [];
+
+    // Accounts are published one after another; one failing doesn't stop the others
+    const results: AccountPublishResult[] = [];
+    for (const account of accounts as ConnectedAccount[]) {
+      const result: AccountPublishResult = { accountId: account.id, account: ConnectedAccountService.label(account) };
+      try {
+        const credentials = await ConnectedAccountService.getCredentials(account);
+        result.post = await connector.publish(credentials, { text: content, media, threadSegments, contentWarning, author: authorUrn });
+      } catch (error: any) {
+        console.error(`${connector.name} post error (account ${account.id}):`, error);
+        result.error = error.message || `Failed to post to ${connector.name}`;
+        // Keep whatever was posted of a thread that failed part way
+        if (error instanceof ThreadPostError) {
+          result.postedIds = error.postedIds;
+        }
+      }
+      results.push(result);
+    }
+
+    const published = results.filter(result => result.post);
+    const partial = results.find(result => result.postedIds?.length);
+    await markGenerationPosted(
+      generationRequestId,
+      connector.id,
+      published[0]?.post?.ids || partial?.postedIds || [],
+      published[0]?.post?.author
     );
 
-    // Clean up temporary storage
-    oauthTokenStore.delete(oauth_token as string);
-
-    // Save tokens directly to user record
-    await prisma.user.update({
-      where: { id: stored.userId },
-      data: {
-        twitterAccessToken: accessToken,
-        twitterAccessSecret: accessSecret,
-        twitterUserId: userId,
-        twitterUsername: screenName,
-      },
-    });
+    if (published.length === 0) {
+      res.status(partial ? 502 : 500).json({
+        error: results[0].error,
+        postedIds: partial?.postedIds,
+        results,
+      });
+      return;
+    }
 
-    // Redirect back to frontend
-    const frontendUrl = getFrontendUrl();
-    res.redirect(`${frontendUrl}?twitter_connected=true`);
-  } catch (error) {
-    console.error('Twitter callback error:', error);
-    res.status(500).send('Failed to complete Twitter authentication');
+    const first = published[0];
+    const failed = results.length - published.length;
+    res.json({
+      success: true,
+      post: first.post,
+      results,
+      message: results.length > 1
+        ? `Published to ${published.length} of ${results.length} ${connector.name} accounts` +
+          (failed > 0 ? ` (${failed} failed)` : '') + '!'
+        : threadSegments
+          ? `Thread of ${first.post!.ids.length} posts published to ${connector.name} (${first.account})!`
+          : `Post published successfully to ${connector.name} (${first.account})!`,
+    });
+  } catch (error: any) {
+    console.error(`${connector.name} post error:`, error);
+    res.status(500).json({ error: error.message || `Failed to post to ${connector.name}` });
   }
-});
+}
 
-// Post a tweet
-router.post('/twitter/post', async (req: Request, res: Response): Promise<void> => {
+// Check content against each platform's limits without posting anything
+router.post('/validate', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const { text, mediaUrls, generationRequestId } = req.body;
+    const { content, platform, mediaUrls, threadSegments, contentWarning, variants } = req.body;
 
-    if (!text) {
-      res.status(400).json({ error: 'Text is required' });
+    const platforms = ContentValidationService.platformsFor(platform || 'both');
+    if (platforms.length === 0) {
+      res.status(400).json({ error: `Invalid platform. Must be both or a comma-separated list of: ${Object.keys(PLATFORM_RULES).join(', ')}` });
       return;
     }
 
-    const userId = (req.user as any).id;
-
-    // Get the user's Twitter credentials
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        twitterAccessToken: true,
-        twitterAccessSecret: true,
-        twitterUsername: true,
-      },
-    });
+    if (content !== undefined && content !== null && typeof content !== 'string') {
+      res.status(400).json({ error: 'content must be a string' });
+      return;
+    }
 
-    if (!user || !user.twitterAccessToken || !user.twitterAccessSecret) {
-      res.status(404).json({ 
-        error: 'Twitter account not connected. Please connect your Twitter account in your Profile.' 
-      });
+    if (mediaUrls !== undefined && !Array.isArray(mediaUrls)) {
+      res.status(400).json({ error: 'mediaUrls must be an array' });
       return;
     }
 
-    // Create Twitter service instance
-    const twitterService = new TwitterService(user.twitterAccessToken, user.twitterAccessSecret);
+    if (threadSegments !== undefined && !isSegmentList(threadSegments)) {
+      res.status(400).json({ error: 'Every thread segment must be non-empty text' });
+      return;
+    }
 
-    // Post tweet
-    let result;
-    if (mediaUrls && mediaUrls.length > 0) {
-      result = await twitterService.postTweetWithMedia(text, mediaUrls);
-    } else {
-      result = await twitterService.postTweet(text);
+    if (contentWarning !== undefined && contentWarning !== null && typeof contentWarning !== 'string') {
+      res.status(400).json({ error: 'contentWarning must be a string' });
+      return;
     }
 
-    // Mark generation request as posted if provided
-    if (generationRequestId) {
-      await prisma.generationRequest.update({
-        where: { id: generationRequestId },
-        data: {
-          postedToTwitter: true,
-          twitterPostId: result.id,
-          twitterPostedAt: new Date(),
-        },
-      });
+    // Per-platform overrides of the text, e.g. { twitter: 'Shorter version' }
+    if (variants !== undefined && variants !== null && (
+      typeof variants !== 'object' || Array.isArray(variants) ||
+      Object.values(variants).some(variant => variant !== null && typeof variant !== 'string')
+    )) {
+      res.status(400).json({ error: 'variants must map platforms to text' });
+      return;
     }
 
-    res.json({
-      success: true,
-      tweet: result,
-      message: `Tweet posted successfully to @${user.twitterUsername}!`,
-    });
+    const results = ContentValidationService.validateAll(
+      platforms,
+      { content: content || '', mediaCount: mediaUrls?.length, threadSegments, contentWarning },
+      variants
+    );
+
+    res.json({ valid: results.every(result => result.valid), results });
   } catch (error: any) {
-    console.error('Twitter post error:', error);
-    res.status(500).json({ error: error.message || 'Failed to post tweet' });
+    console.error('Content validation error:', error);
+    res.status(500).json({ error: error.message || 'Failed to validate content' });
   }
 });
 
-// Get Twitter account info
-router.get('/twitter/status', async (req: Request, res: Response): Promise<void> => {
+// Every registered platform with the current user's connection status
+router.get('/accounts', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const userId = (req.user as any).id;
-
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        twitterUsername: true,
-        twitterUserId: true,
-        twitterAccessToken: true,
-      },
-    });
-
-    const isConnected = !!(user?.twitterAccessToken && user?.twitterUsername);
-
-    res.json({ 
-      isConnected,
-      username: user?.twitterUsername || null,
-      userId: user?.twitterUserId || null,
-    });
+    const accounts = await ConnectedAccountService.listStatuses((req.user as any).id);
+    res.json({ accounts });
   } catch (error: any) {
-    console.error('Twitter status error:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch Twitter status' });
+    console.error('Connected accounts error:', error);
+    res.status(500).json({ error: 'Failed to fetch connected accounts' });
   }
 });
 
-// ============= LinkedIn Routes =============
-
-// Get LinkedIn authorization status
-router.get('/linkedin/status', async (req: Request, res: Response): Promise<void> => {
+// Accounts that need reconnecting and the scheduled posts that will fail until they are
+router.get('/health', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const userId = (req.user as any).id;
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        linkedinAccessToken: true,
-        linkedinUsername: true,
-        linkedinUserId: true,
-      },
-    });
-
-    const isConnected = !!(user?.linkedinAccessToken);
-
-    res.json({
-      isConnected,
-      username: user?.linkedinUsername || null,
-      userId: user?.linkedinUserId || null,
-    });
+    res.json(await TokenHealthService.getHealth((req.user as any).id));
   } catch (error: any) {
-    console.error('LinkedIn status error:', error);
-    res.status(500).json({ error: 'Failed to fetch LinkedIn status' });
+    console.error('Token health error:', error);
+    res.status(500).json({ error: 'Failed to check connected accounts' });
   }
 });
 
-// Initiate LinkedIn OAuth flow
-router.get('/linkedin/connect', async (req: Request, res: Response): Promise<void> => {
+// Set or clear an account's nickname
+router.patch('/accounts/:accountId', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    // Log environment variables for debugging
-    console.log('LinkedIn OAuth Debug:');
-    console.log('- CLIENT_ID:', process.env.LINKEDIN_CLIENT_ID ? 'SET' : 'NOT SET');
-    console.log('- CLIENT_SECRET:', process.env.LINKEDIN_CLIENT_SECRET ? 'SET' : 'NOT SET');
-    console.log('- REDIRECT_URI:', process.env.LINKEDIN_REDIRECT_URI || 'NOT SET');
-
-    if (!process.env.LINKEDIN_CLIENT_ID || !process.env.LINKEDIN_CLIENT_SECRET) {
-      console.error('LinkedIn API credentials not configured');
-      res.status(500).json({ 
-        error: 'LinkedIn API credentials not configured. Please add LINKEDIN_CLIENT_ID and LINKEDIN_CLIENT_SECRET to your .env file.' 
-      });
+    const { nickname } = req.body;
+    if (nickname !== null && nickname !== undefined && typeof nickname !== 'string') {
+      res.status(400).json({ error: 'nickname must be a string' });
       return;
     }
 
-    const callbackUrl = process.env.LINKEDIN_REDIRECT_URI || `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/linkedin/callback`;
-    
-    // Generate a random state for CSRF protection
-    const state = Math.random().toString(36).substring(7);
-    
-    const authUrl = LinkedInService.generateAuthUrl(callbackUrl, state);
-    
-    console.log('Generated LinkedIn OAuth URL:', authUrl);
-
-    // Store state with user ID
-    linkedinStateStore.set(state, (req.user as any).id);
+    const account = await ConnectedAccountService.rename((req.user as any).id, req.params.accountId, nickname);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
 
-    res.json({ authUrl });
+    res.json({ success: true, account: ConnectedAccountService.toSummary(account) });
   } catch (error: any) {
-    console.error('LinkedIn OAuth error:', error);
-    res.status(500).json({ 
-      error: 'Failed to initiate LinkedIn authentication',
-      details: error.message || 'Unknown error'
-    });
+    console.error('Rename account error:', error);
+    res.status(500).json({ error: 'Failed to update account' });
   }
 });
 
-// LinkedIn OAuth callback
-router.get('/linkedin/callback', async (req: Request, res: Response): Promise<void> => {
-  try {
-    console.log('LinkedIn callback received with query params:', req.query);
-    
-    const { code, state, error, error_description } = req.query;
-
-    // Check if LinkedIn returned an error
-    if (error) {
-      console.error('LinkedIn OAuth error:', error, error_description);
-      const frontendUrl = getFrontendUrl();
-      const errorMsg = typeof error_description === 'string' ? error_description : (typeof error === 'string' ? error : 'Unknown error');
-      res.redirect(`${frontendUrl}?linkedin_error=${encodeURIComponent(errorMsg)}`);
-      return;
-    }
-
-    if (!code || !state) {
-      console.error('Missing OAuth parameters. Received:', { code: !!code, state: !!state });
-      res.status(400).send('Missing OAuth parameters from LinkedIn');
-      return;
-    }
+// ============= Twitter Threads =============
 
-    // Retrieve user ID from state
-    const userId = linkedinStateStore.get(state as string);
-    if (!userId) {
-      console.error('Invalid OAuth state. State not found in store.');
-      res.status(400).send('Invalid OAuth state');
-      return;
-    }
-
-    // Clean up state
-    linkedinStateStore.delete(state as string);
-
-    const callbackUrl = process.env.LINKEDIN_REDIRECT_URI || `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/linkedin/callback`;
-    
-    console.log('Exchanging code for access token with redirect URI:', callbackUrl);
-    
-    // Exchange code for access token
-    const { accessToken } = await LinkedInService.getAccessToken(code as string, callbackUrl);
+// Split text into a thread, or check an edited list of segments, without posting anything
+router.post('/twitter/thread/preview', async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return;
+  }
 
-    // Get user profile
-    const linkedinService = new LinkedInService(accessToken);
-    const profile = await linkedinService.getProfile();
+  const { text, segments, numbered } = req.body;
 
-    // Save tokens to database
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        linkedinAccessToken: accessToken,
-        linkedinUsername: profile.name,
-        linkedinUserId: profile.id,
-      },
-    });
+  if (!Array.isArray(segments) && (typeof text !== 'string' || !text.trim())) {
+    res.status(400).json({ error: 'Provide text to split or segments to check' });
+    return;
+  }
 
-    // Redirect back to frontend
-    const frontendUrl = getFrontendUrl();
-    res.redirect(`${frontendUrl}?linkedin_connected=true`);
-  } catch (error: any) {
-    console.error('LinkedIn callback error:', error);
-    res.status(500).send('Failed to complete LinkedIn authentication');
+  if (Array.isArray(segments) && !isSegmentList(segments)) {
+    res.status(400).json({ error: 'Every thread segment must be non-empty text' });
+    return;
   }
-});
 
-// Disconnect LinkedIn
-router.post('/linkedin/disconnect', async (req: Request, res: Response): Promise<void> => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ error: 'Not authenticated' });
-      return;
-    }
+  const threadSegments: string[] = Array.isArray(segments) ? segments : splitIntoThread(text, { numbered });
+  const checks = checkThread(threadSegments);
 
-    const userId = (req.user as any).id;
-    
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        linkedinAccessToken: null,
-        linkedinUsername: null,
-      },
-    });
+  res.json({
+    segments: checks,
+    valid: checks.every(check => check.valid) && checks.length <= MAX_THREAD_TWEETS,
+    maxTweets: MAX_THREAD_TWEETS,
+  });
+});
 
-    res.json({ success: true, message: 'LinkedIn account disconnected' });
-  } catch (error: any) {
-    console.error('LinkedIn disconnect error:', error);
-    res.status(500).json({ error: 'Failed to disconnect LinkedIn account' });
+// Post a thread as a reply chain
+router.post('/twitter/thread', async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return;
   }
+
+  await publishPost(req, res, SocialConnectorRegistry.get('twitter')!, req.body.segments ?? []);
 });
 
-// Post to LinkedIn
-router.post('/linkedin/post', async (req: Request, res: Response): Promise<void> => {
+// ============= Canva Designs =============
+
+// Create Canva design from text
+router.post('/canva/create-design', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const { text, generationRequestId } = req.body;
+    const { text, title, brandTemplateId, accountId, generationRequestId } = req.body;
 
-    if (!text) {
-      res.status(400).json({ error: 'Text is required' });
+    if (!text || !brandTemplateId) {
+      res.status(400).json({ error: 'Text and brandTemplateId are required' });
       return;
     }
 
     const userId = (req.user as any).id;
 
-    // Get the user's LinkedIn credentials
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        linkedinAccessToken: true,
-        linkedinUsername: true,
-      },
-    });
-
-    if (!user || !user.linkedinAccessToken) {
-      res.status(404).json({ 
-        error: 'LinkedIn account not connected. Please connect your LinkedIn account in your Profile.' 
+    // Refreshes the token first if it has expired
+    const connection = await ConnectedAccountService.getCredentialsFor(userId, 'canva', accountId);
+    if (!connection) {
+      res.status(404).json({
+        error: 'Canva account not connected. Please connect your Canva account in your Profile.'
       });
       return;
     }
 
-    // Create LinkedIn service instance
-    const linkedinService = new LinkedInService(user.linkedinAccessToken);
+    // Create Canva service instance
+    const canvaService = new CanvaService(connection.credentials.accessToken);
 
-    // Post to LinkedIn
-    const result = await linkedinService.postText(text);
+    // Create design from text
+    const designTitle = title || 'AI Generated Design';
+    const result = await canvaService.createDesignFromText(brandTemplateId, text, designTitle);
 
-    // Mark generation request as posted if provided
+    // Mark generation request with Canva design if provided
     if (generationRequestId) {
       await prisma.generationRequest.update({
         where: { id: generationRequestId },
         data: {
-          postedToLinkedIn: true,
-          linkedinPostId: result.id,
-          linkedinPostedAt: new Date(),
+          canvaDesignId: result.designId,
+          canvaDesignUrl: result.url,
+          canvaCreatedAt: new Date(),
         },
       });
     }
 
     res.json({
       success: true,
-      post: result,
-      message: `Post published successfully to LinkedIn (${user.linkedinUsername})!`,
+      design: result,
+      message: 'Canva design created successfully!',
     });
   } catch (error: any) {
-    console.error('LinkedIn post error:', error);
-    res.status(500).json({ error: error.message || 'Failed to post to LinkedIn' });
+    console.error('Canva design creation error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create Canva design' });
   }
 });
 
-// ============= Canva Routes =============
-
-// Get Canva authorization status
-router.get('/canva/status', async (req: Request, res: Response): Promise<void> => {
+// List Canva brand templates
+router.get('/canva/templates', async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -501,344 +421,292 @@ router.get('/canva/status', async (req: Request, res: Response): Promise<void> =
     }
 
     const userId = (req.user as any).id;
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        canvaAccessToken: true,
-        canvaUserId: true,
-        canvaTokenExpiry: true,
-      },
-    });
 
-    console.log('Canva status check for user:', userId);
-    console.log('Has access token:', !!user?.canvaAccessToken);
-    console.log('Has userId:', !!user?.canvaUserId);
-    console.log('Token expiry:', user?.canvaTokenExpiry);
+    // Refreshes the token first if it has expired
+    const connection = await ConnectedAccountService.getCredentialsFor(userId, 'canva', req.query.accountId as string | undefined);
+    if (!connection) {
+      res.status(404).json({
+        error: 'Canva account not connected. Please connect your Canva account in your Profile.'
+      });
+      return;
+    }
 
-    const isConnected = !!(user?.canvaAccessToken && user?.canvaUserId);
-    const isExpired = user?.canvaTokenExpiry ? new Date(user.canvaTokenExpiry) < new Date() : true;
+    // Create Canva service instance
+    const canvaService = new CanvaService(connection.credentials.accessToken);
 
-    console.log('Is connected:', isConnected);
-    console.log('Is expired:', isExpired);
-    console.log('Final status:', isConnected && !isExpired);
+    // List brand templates
+    const templates = await canvaService.listBrandTemplates();
 
     res.json({
-      isConnected: isConnected && !isExpired,
-      userId: user?.canvaUserId || null,
+      templates,
     });
   } catch (error: any) {
-    console.error('Canva status error:', error);
-    res.status(500).json({ error: 'Failed to fetch Canva status' });
+    console.error('Canva list templates error:', error);
+    res.status(500).json({ error: error.message || 'Failed to list Canva templates' });
   }
 });
 
-// Initiate Canva OAuth flow
-router.get('/canva/connect', async (req: Request, res: Response): Promise<void> => {
+// ============= Connector Routes =============
+// The same routes serve every registered connector, e.g. /api/social/linkedin/connect
+
+// Get authorization status
+router.get('/:platform/status', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
+
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    console.log('Canva OAuth Debug:');
-    console.log('- CLIENT_ID:', process.env.CANVA_CLIENT_ID ? 'SET' : 'NOT SET');
-    console.log('- CLIENT_SECRET:', process.env.CANVA_CLIENT_SECRET ? 'SET' : 'NOT SET');
+    const accounts = await ConnectedAccountService.listForPlatform((req.user as any).id, connector.id);
+    res.json(ConnectedAccountService.toStatus(connector.id, accounts));
+  } catch (error: any) {
+    console.error(`${connector.name} status error:`, error);
+    res.status(500).json({ error: `Failed to fetch ${connector.name} status` });
+  }
+});
+
+// Initiate the OAuth flow
+router.get('/:platform/connect', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
 
-    if (!process.env.CANVA_CLIENT_ID || !process.env.CANVA_CLIENT_SECRET) {
-      console.error('Canva API credentials not configured');
-      res.status(500).json({ 
-        error: 'Canva API credentials not configured. Please add CANVA_CLIENT_ID and CANVA_CLIENT_SECRET to your .env file.' 
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    if (!connector.connect) {
+      res.status(400).json({ error: `${connector.name} connects with a login instead of OAuth` });
+      return;
+    }
+
+    const missingEnv = SocialConnectorRegistry.getMissingEnv(connector);
+    if (missingEnv.length > 0) {
+      console.error(`${connector.name} API credentials not configured`);
+      res.status(500).json({
+        error: `${connector.name} API credentials not configured. Please add ${missingEnv.join(' and ')} to your .env file.`
       });
       return;
     }
 
-    const callbackUrl = `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/canva/callback`;
-    
-    console.log('Using callback URL:', callbackUrl);
-    
-    // Generate PKCE parameters
-    const { codeVerifier, codeChallenge } = CanvaService.generatePKCE();
-    
-    // Generate a random state for CSRF protection
-    const state = Math.random().toString(36).substring(7);
-    
-    const authUrl = CanvaService.generateAuthUrl(callbackUrl, state, codeChallenge);
-    
-    console.log('Generated Canva OAuth URL');
-    console.log('Full auth URL:', authUrl);
-
-    // Store state with user ID and code verifier
-    canvaStateStore.set(state, {
+    const callbackUrl = getCallbackUrl(connector.id);
+    console.log(`Initiating ${connector.name} OAuth with callback:`, callbackUrl);
+
+    const { authUrl, state, stateData } = await connector.connect(callbackUrl, req.query);
+
+    await OAuthStateService.create(state, {
       userId: (req.user as any).id,
-      codeVerifier,
+      platform: connector.id,
+      sessionId: req.sessionID,
+      data: stateData || {},
     });
 
     res.json({ authUrl });
   } catch (error: any) {
-    console.error('Canva OAuth error:', error);
-    res.status(500).json({ 
-      error: 'Failed to initiate Canva authentication',
+    console.error(`${connector.name} OAuth error:`, error);
+    res.status(500).json({
+      error: `Failed to initiate ${connector.name} authentication`,
       details: error.message || 'Unknown error'
     });
   }
 });
 
-// Canva OAuth callback
-router.get('/canva/callback', async (req: Request, res: Response): Promise<void> => {
+// OAuth callback
+router.get('/:platform/callback', async (req: Request, res: Response): Promise<void> => {
+  const connector = SocialConnectorRegistry.get(req.params.platform);
+  if (!connector) {
+    res.status(404).send('Unknown platform');
+    return;
+  }
+
+  const frontendUrl = getFrontendUrl();
+
+  if (!connector.callback) {
+    res.status(404).send(`${connector.name} has no OAuth callback`);
+    return;
+  }
+
+  const state = req.query[connector.stateParam || 'state'];
+
   try {
-    console.log('========== CANVA CALLBACK START ==========');
-    console.log('Canva callback received with query params:', req.query);
-    
-    const { code, state, error, error_description } = req.query;
+    const { error, error_description } = req.query;
 
-    // Check if Canva returned an error
+    // Check if the platform returned an error
     if (error) {
-      console.error('Canva OAuth error:', error, error_description);
-      const frontendUrl = getFrontendUrl();
+      console.error(`${connector.name} OAuth error:`, error, error_description);
+      await OAuthStateService.discard(state, req.sessionID);
       const errorMsg = typeof error_description === 'string' ? error_description : (typeof error === 'string' ? error : 'Unknown error');
-      res.redirect(`${frontendUrl}?canva_error=${encodeURIComponent(errorMsg)}`);
+      res.redirect(`${frontendUrl}?${connector.id}_error=${encodeURIComponent(errorMsg)}`);
       return;
     }
 
-    if (!code || !state) {
-      console.error('Missing OAuth parameters. Received:', { code: !!code, state: !!state });
-      res.status(400).send('Missing OAuth parameters from Canva');
-      return;
-    }
-
-    // Retrieve user ID and code verifier from state
-    const stored = canvaStateStore.get(state as string);
-    if (!stored) {
-      console.error('Invalid OAuth state. State not found in store.');
-      console.error('Available states in store:', Array.from(canvaStateStore.keys()));
-      res.status(400).send('Invalid OAuth state');
-      return;
-    }
-
-    console.log('Found stored state for userId:', stored.userId);
-
-    // Clean up state
-    canvaStateStore.delete(state as string);
-
-    const callbackUrl = `${process.env.BACKEND_URL || 'http://127.0.0.1:3001'}/api/social/canva/callback`;
-    
-    console.log('Exchanging code for access token with callback URL:', callbackUrl);
-    
-    // Exchange code for access token
-    const { accessToken, refreshToken, expiresIn } = await CanvaService.getAccessToken(
-      code as string,
-      stored.codeVerifier,
-      callbackUrl
-    );
-
-    console.log('Successfully received tokens from Canva');
-    console.log('Access token length:', accessToken?.length);
-    console.log('Refresh token length:', refreshToken?.length);
-    console.log('Expires in:', expiresIn);
-
-    // Get user profile
-    const canvaService = new CanvaService(accessToken);
-    const profile = await canvaService.getProfile();
-    
-    console.log('Got Canva profile:', { id: profile.id, displayName: profile.displayName });
-
-    // Calculate token expiry
-    const tokenExpiry = new Date(Date.now() + expiresIn * 1000);
-
-    // Save tokens to database
-    console.log('Saving tokens to database for user:', stored.userId);
-    const updatedUser = await prisma.user.update({
-      where: { id: stored.userId },
-      data: {
-        canvaAccessToken: accessToken,
-        canvaRefreshToken: refreshToken,
-        canvaUserId: profile.id,
-        canvaTokenExpiry: tokenExpiry,
-      },
-    });
+    // Single use, and only from the session that started the flow
+    const stored = await OAuthStateService.consume(state, connector.id, req.sessionID);
 
-    console.log('Successfully saved Canva tokens to database');
-    console.log('Updated user canvaUserId:', updatedUser.canvaUserId);
+    const result = await connector.callback(req.query, stored.data, getCallbackUrl(connector.id));
+    await ConnectedAccountService.save(stored.userId, connector.id, result);
 
-    // Redirect back to frontend (use 127.0.0.1 to match Canva's requirement)
-    const frontendUrl = getFrontendUrl();
-    console.log('Redirecting to frontend:', `${frontendUrl}?canva_connected=true`);
-    console.log('========== CANVA CALLBACK END ==========');
-    res.redirect(`${frontendUrl}?canva_connected=true`);
+    // Redirect back to frontend
+    res.redirect(`${frontendUrl}?${connector.id}_connected=true`);
   } catch (error: any) {
-    console.error('========== CANVA CALLBACK ERROR ==========');
-    console.error('Canva callback error:', error);
-    console.error('Error stack:', error.stack);
-    res.status(500).send('Failed to complete Canva authentication');
+    if (error instanceof OAuthStateError) {
+      console.error(`Invalid ${connector.name} OAuth state:`, error.message);
+      res.status(400).send(`Invalid OAuth state: ${error.message}`);
+      return;
+    }
+    console.error(`${connector.name} callback error:`, error);
+    res.status(500).send(`Failed to complete ${connector.name} authentication`);
   }
 });
 
-// Create Canva design from text
-router.post('/canva/create-design', async (req: Request, res: Response): Promise<void> => {
+// Connect with credentials the user enters, for platforms without OAuth (e.g. a Bluesky app password)
+router.post('/:platform/login', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
+
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const { text, title, brandTemplateId, generationRequestId } = req.body;
-
-    if (!text || !brandTemplateId) {
-      res.status(400).json({ error: 'Text and brandTemplateId are required' });
+    if (!connector.login) {
+      res.status(400).json({ error: `${connector.name} connects through OAuth; use /connect instead` });
       return;
     }
 
-    const userId = (req.user as any).id;
+    const result = await connector.login(req.body);
+    const account = await ConnectedAccountService.save((req.user as any).id, connector.id, result);
 
-    // Get the user's Canva credentials
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        canvaAccessToken: true,
-        canvaRefreshToken: true,
-        canvaTokenExpiry: true,
-        canvaUserId: true,
-      },
+    res.json({
+      success: true,
+      account: ConnectedAccountService.toSummary(account),
+      message: `${connector.name} account connected`,
     });
+  } catch (error: any) {
+    console.error(`${connector.name} login error:`, error.message);
+    res.status(400).json({ error: error.message || `Failed to connect ${connector.name} account` });
+  }
+});
 
-    if (!user || !user.canvaAccessToken) {
-      res.status(404).json({ 
-        error: 'Canva account not connected. Please connect your Canva account in your Profile.' 
-      });
-      return;
-    }
+// Disconnect
+router.post('/:platform/disconnect', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
 
-    // Check if token is expired and refresh if needed
-    let accessToken = user.canvaAccessToken;
-    if (user.canvaTokenExpiry && new Date(user.canvaTokenExpiry) < new Date()) {
-      console.log('Canva token expired, refreshing...');
-      const refreshed = await CanvaService.refreshAccessToken(user.canvaRefreshToken!);
-      accessToken = refreshed.accessToken;
-      
-      // Update tokens in database
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          canvaAccessToken: refreshed.accessToken,
-          canvaRefreshToken: refreshed.refreshToken,
-          canvaTokenExpiry: new Date(Date.now() + refreshed.expiresIn * 1000),
-        },
-      });
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
     }
 
-    // Create Canva service instance
-    const canvaService = new CanvaService(accessToken);
+    const userId = (req.user as any).id;
+    let { accountId } = req.body;
 
-    // Create design from text
-    const designTitle = title || 'AI Generated Design';
-    const result = await canvaService.createDesignFromText(brandTemplateId, text, designTitle);
+    // Without an accountId, only an unambiguous single account can be disconnected
+    if (!accountId) {
+      const accounts = await ConnectedAccountService.listForPlatform(userId, connector.id);
+      if (accounts.length > 1) {
+        res.status(400).json({ error: `Choose which ${connector.name} account to disconnect` });
+        return;
+      }
+      accountId = accounts[0]?.id;
+    }
 
-    // Mark generation request with Canva design if provided
-    if (generationRequestId) {
-      await prisma.generationRequest.update({
-        where: { id: generationRequestId },
-        data: {
-          canvaDesignId: result.designId,
-          canvaDesignUrl: result.url,
-          canvaCreatedAt: new Date(),
-        },
-      });
+    if (!accountId || !(await ConnectedAccountService.disconnect(userId, accountId))) {
+      res.status(404).json({ error: `${connector.name} account not found` });
+      return;
     }
 
-    res.json({
-      success: true,
-      design: result,
-      message: 'Canva design created successfully!',
-    });
+    res.json({ success: true, message: `${connector.name} account disconnected` });
   } catch (error: any) {
-    console.error('Canva design creation error:', error);
-    res.status(500).json({ error: error.message || 'Failed to create Canva design' });
+    console.error(`${connector.name} disconnect error:`, error);
+    res.status(500).json({ error: `Failed to disconnect ${connector.name} account` });
   }
 });
 
-// List Canva brand templates
-router.get('/canva/templates', async (req: Request, res: Response): Promise<void> => {
+// Who an account can post as, e.g. the LinkedIn member and the company pages they administer
+router.get('/:platform/authors', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
+
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const userId = (req.user as any).id;
-
-    // Get the user's Canva credentials
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        canvaAccessToken: true,
-        canvaRefreshToken: true,
-        canvaTokenExpiry: true,
-      },
-    });
-
-    if (!user || !user.canvaAccessToken) {
-      res.status(404).json({ 
-        error: 'Canva account not connected. Please connect your Canva account in your Profile.' 
-      });
+    if (!connector.listAuthors) {
+      res.status(400).json({ error: `${connector.name} posts can't choose an author` });
       return;
     }
 
-    // Check if token is expired and refresh if needed
-    let accessToken = user.canvaAccessToken;
-    if (user.canvaTokenExpiry && new Date(user.canvaTokenExpiry) < new Date()) {
-      const refreshed = await CanvaService.refreshAccessToken(user.canvaRefreshToken!);
-      accessToken = refreshed.accessToken;
-      
-      // Update tokens in database
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          canvaAccessToken: refreshed.accessToken,
-          canvaRefreshToken: refreshed.refreshToken,
-          canvaTokenExpiry: new Date(Date.now() + refreshed.expiresIn * 1000),
-        },
-      });
+    const connection = await ConnectedAccountService.getCredentialsFor(
+      (req.user as any).id,
+      connector.id,
+      req.query.accountId as string | undefined
+    );
+    if (!connection) {
+      res.status(404).json({ error: `${connector.name} account not connected` });
+      return;
     }
 
-    // Create Canva service instance
-    const canvaService = new CanvaService(accessToken);
+    const authors = await connector.listAuthors(connection.credentials);
+    res.json({ accountId: connection.account.id, authors });
+  } catch (error: any) {
+    console.error(`${connector.name} authors error:`, error);
+    res.status(500).json({ error: error.message || `Failed to fetch ${connector.name} authors` });
+  }
+});
 
-    // List brand templates
-    const templates = await canvaService.listBrandTemplates();
+// Publish a post
+router.post('/:platform/post', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
 
-    res.json({
-      templates,
-    });
-  } catch (error: any) {
-    console.error('Canva list templates error:', error);
-    res.status(500).json({ error: error.message || 'Failed to list Canva templates' });
+  if (!req.user) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return;
   }
+
+  await publishPost(req, res, connector, req.body.threadSegments);
 });
 
-// Disconnect Canva
-router.post('/canva/disconnect', async (req: Request, res: Response): Promise<void> => {
+// Engagement counts for a published post
+router.get('/:platform/posts/:postId/metrics', async (req: Request, res: Response): Promise<void> => {
+  const connector = findConnector(req, res);
+  if (!connector) return;
+
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
       return;
     }
 
-    const userId = (req.user as any).id;
-    
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        canvaAccessToken: null,
-        canvaRefreshToken: null,
-        canvaUserId: null,
-        canvaTokenExpiry: null,
-      },
-    });
+    if (!connector.fetchMetrics) {
+      res.status(400).json({ error: `${connector.name} does not provide post metrics` });
+      return;
+    }
+
+    const connection = await ConnectedAccountService.getCredentialsFor(
+      (req.user as any).id,
+      connector.id,
+      req.query.accountId as string | undefined
+    );
+    if (!connection) {
+      res.status(404).json({ error: `${connector.name} account not connected` });
+      return;
+    }
 
-    res.json({ success: true, message: 'Canva account disconnected' });
+    const metrics = await connector.fetchMetrics(connection.credentials, req.params.postId);
+    res.json({ postId: req.params.postId, metrics });
   } catch (error: any) {
-    console.error('Canva disconnect error:', error);
-    res.status(500).json({ error: 'Failed to disconnect Canva account' });
+    console.error(`${connector.name} metrics error:`, error);
+    res.status(500).json({ error: error.message || `Failed to fetch ${connector.name} metrics` });
   }
 });
 
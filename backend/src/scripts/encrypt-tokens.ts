@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { ENCRYPTED_FIELDS, TokenEncryptionService } from '../services/token-encryption.service';
+
+dotenv.config();
+
+// Works on the stored values directly, so it uses a client without the encryption extension
+const prisma = new PrismaClient();
+
+// Encrypts secrets still stored as plaintext. With --rotate, also re-wraps values encrypted with
+// an older key version under the current one. --dry-run only reports what would change.
+//   npm run tokens:encrypt
+//   npm run tokens:rotate -- --dry-run
+const rotate = process.argv.includes('--rotate');
+const dryRun = process.argv.includes('--dry-run');
+
+async function migrate(
+  model: string,
+  fields: readonly string[],
+  rows: Array<Record<string, any>>,
+  save: (id: string, data: Record<string, string>) => Promise<unknown>
+): Promise<number> {
+  const current = TokenEncryptionService.currentVersion();
+  let changed = 0;
+
+  for (const row of rows) {
+    const data: Record<string, string> = {};
+    for (const field of fields) {
+      const value = row[field];
+      if (typeof value !== 'string') continue;
+
+      const version = TokenEncryptionService.versionOf(value);
+      if (version === null) {
+        data[field] = TokenEncryptionService.encrypt(value);
+      } else if (rotate && version !== current) {
+        data[field] = TokenEncryptionService.rewrap(value);
+      }
+    }
+
+    if (Object.keys(data).length > 0) {
+      changed++;
+      if (!dryRun) {
+        await save(row.id, data);
+      }
+    }
+  }
+
+  console.log(`${model}: ${changed} of ${rows.length} rows ${dryRun ? 'would be updated' : 'updated'}`);
+  return changed;
+}
+
+async function main() {
+  if (!TokenEncryptionService.isConfigured()) {
+    throw new Error('Set TOKEN_ENCRYPTION_KEYS before encrypting tokens');
+  }
+
+  console.log(`${rotate ? 'Rotating' : 'Encrypting'} tokens with key version ${TokenEncryptionService.currentVersion()}${dryRun ? ' (dry run)' : ''}`);
+
+  await migrate(
+    'connected_accounts',
+    ENCRYPTED_FIELDS.connectedAccount,
+    await prisma.connectedAccount.findMany(),
+    (id, data) => prisma.connectedAccount.update({ where: { id }, data })
+  );
+
+  await migrate(
+    'mastodon_apps',
+    ENCRYPTED_FIELDS.mastodonApp,
+    await prisma.mastodonApp.findMany(),
+    (id, data) => prisma.mastodonApp.update({ where: { id }, data })
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Token encryption failed:', error.message);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,82 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { IAIService, MediaGenerationResult, TextGenerationResult, TokenHandler } from './types';
+
+// Anthropic requires max_tokens; models missing from the provider's list get a limit every current model supports
+const DEFAULT_MAX_TOKENS = 8192;
+
+export class AnthropicService implements IAIService {
+  private client: Anthropic;
+  private modelMaxTokens: Record<string, number>;
+
+  // modelMaxTokens is each model's completion limit, used when the request doesn't set maxTokens
+  constructor(apiKey: string, modelMaxTokens: Record<string, number> = {}) {
+    // Retries and fallback are handled by AIServiceFactory
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+    this.modelMaxTokens = modelMaxTokens;
+  }
+
+  async generateText(prompt: string, context?: string, options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  }): Promise<TextGenerationResult> {
+    // Streamed even though only the final message is used: the SDK refuses non-streaming requests whose
+    // max_tokens could take longer than its 10 minute timeout, which a model's full limit can
+    const message = await this.client.messages.stream(this.buildMessageParams(prompt, context, options)).finalMessage();
+
+    return this.toResult(message);
+  }
+
+  async streamText(prompt: string, onToken: TokenHandler, context?: string, options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  }, signal?: AbortSignal): Promise<TextGenerationResult> {
+    const stream = this.client.messages.stream(this.buildMessageParams(prompt, context, options), { signal });
+
+    stream.on('text', (token) => onToken(token));
+
+    return this.toResult(await stream.finalMessage());
+  }
+
+  async generateImage(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
+    throw new Error('Image generation not supported by Anthropic');
+  }
+
+  async generateVideo(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
+    throw new Error('Video generation not supported by Anthropic');
+  }
+
+  private buildMessageParams(prompt: string, context?: string, options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  }): Anthropic.MessageCreateParamsNonStreaming {
+    const model = options?.model || 'claude-haiku-4-5';
+
+    return {
+      model,
+      max_tokens: options?.maxTokens || this.modelMaxTokens[model] || DEFAULT_MAX_TOKENS,
+      // Anthropic accepts temperatures between 0 and 1
+      temperature: Math.min(options?.temperature ?? 0.7, 1),
+      ...(context ? { system: context } : {}),
+      messages: [{ role: 'user', content: prompt }],
+    };
+  }
+
+  private toResult(message: Anthropic.Message): TextGenerationResult {
+    const content = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content,
+      usage: {
+        promptTokens: message.usage.input_tokens,
+        completionTokens: message.usage.output_tokens,
+        totalTokens: message.usage.input_tokens + message.usage.output_tokens,
+      },
+      model: message.model,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { AIProvider } from './types';
+
+export enum AIErrorKind {
+  RATE_LIMIT = 'rate_limit',
+  AUTH = 'auth',
+  CONTENT_FILTER = 'content_filter',
+  TIMEOUT = 'timeout',
+  SERVER = 'server',
+  INVALID_REQUEST = 'invalid_request',
+  UNSUPPORTED = 'unsupported',
+  CANCELLED = 'cancelled',
+  UNKNOWN = 'unknown',
+}
+
+// One call to one provider, recorded so we can see how a request was actually served
+export interface AIAttempt {
+  provider: AIProvider;
+  attempt: number;
+  success: boolean;
+  errorKind?: AIErrorKind;
+  error?: string;
+  durationMs: number;
+}
+
+// Kinds worth retrying against the same provider
+const RETRYABLE_KINDS = [AIErrorKind.RATE_LIMIT, AIErrorKind.TIMEOUT, AIErrorKind.SERVER];
+
+// Kinds where another provider won't do any better, so the fallback chain stops
+const TERMINAL_KINDS = [AIErrorKind.CONTENT_FILTER, AIErrorKind.CANCELLED];
+
+export class AIServiceError extends Error {
+  kind: AIErrorKind;
+  provider?: AIProvider;
+  status?: number;
+  retryAfterMs?: number;
+  attempts: AIAttempt[] = [];
+
+  constructor(message: string, kind: AIErrorKind, options?: {
+    provider?: AIProvider;
+    status?: number;
+    retryAfterMs?: number;
+  }) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.provider = options?.provider;
+    this.status = options?.status;
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get allowsFallback(): boolean {
+    return !TERMINAL_KINDS.includes(this.kind);
+  }
+
+  // HTTP status the API should answer with when this error ends a request
+  get httpStatus(): number {
+    switch (this.kind) {
+      case AIErrorKind.RATE_LIMIT: return 429;
+      case AIErrorKind.CONTENT_FILTER: return 422;
+      case AIErrorKind.INVALID_REQUEST:
+      case AIErrorKind.UNSUPPORTED: return 400;
+      case AIErrorKind.TIMEOUT: return 504;
+      case AIErrorKind.AUTH:
+      case AIErrorKind.SERVER: return 502;
+      default: return 500;
+    }
+  }
+
+  // Normalize anything thrown by the OpenAI or Gemini SDKs into an AIServiceError
+  static from(error: any, provider?: AIProvider): AIServiceError {
+    if (error instanceof AIServiceError) {
+      return error;
+    }
+
+    const message: string = error?.message || 'Unknown AI provider error';
+    const status = AIServiceError.extractStatus(error);
+    const kind = AIServiceError.classify(error, status, message);
+
+    return new AIServiceError(message, kind, {
+      provider,
+      status,
+      retryAfterMs: AIServiceError.extractRetryAfter(error),
+    });
+  }
+
+  private static classify(error: any, status: number | undefined, message: string): AIErrorKind {
+    const lowerMessage = message.toLowerCase();
+    const code = String(error?.code || error?.error?.code || '').toLowerCase();
+
+    if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+      return AIErrorKind.CANCELLED;
+    }
+
+    // Azure returns 400 with code content_filter; Gemini blocks with a SAFETY finish reason
+    if (code === 'content_filter' || lowerMessage.includes('content management policy') ||
+        lowerMessage.includes('blocked due to safety')) {
+      return AIErrorKind.CONTENT_FILTER;
+    }
+
+    if (status === 429 || code === 'rate_limit_exceeded' || lowerMessage.includes('rate limit') ||
+        lowerMessage.includes('quota')) {
+      return AIErrorKind.RATE_LIMIT;
+    }
+
+    if (status === 401 || status === 403 || lowerMessage.includes('api key') ||
+        lowerMessage.includes('not configured') || lowerMessage.includes('credentials')) {
+      return AIErrorKind.AUTH;
+    }
+
+    if (status === 408 || error?.name === 'APIConnectionTimeoutError' || code === 'etimedout' ||
+        lowerMessage.includes('timed out') || lowerMessage.includes('timeout')) {
+      return AIErrorKind.TIMEOUT;
+    }
+
+    if ((status && status >= 500) || error?.name === 'APIConnectionError' || code === 'econnreset') {
+      return AIErrorKind.SERVER;
+    }
+
+    if (lowerMessage.includes('not supported')) {
+      return AIErrorKind.UNSUPPORTED;
+    }
+
+    if (status === 400 || status === 404 || status === 422) {
+      return AIErrorKind.INVALID_REQUEST;
+    }
+
+    return AIErrorKind.UNKNOWN;
+  }
+
+  private static extractStatus(error: any): number | undefined {
+    if (typeof error?.status === 'number') {
+      return error.status;
+    }
+
+    // Gemini fetch errors only carry the status in the message, e.g. "[429 Too Many Requests]"
+    const match = /\[(\d{3})[^\]]*\]/.exec(error?.message || '');
+    return match ? Number(match[1]) : undefined;
+  }
+
+  private static extractRetryAfter(error: any): number | undefined {
+    const headers = error?.headers;
+    const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    const seconds = Number(retryAfter);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+  }
+}
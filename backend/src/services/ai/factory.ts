@@ -1,6 +1,6 @@
-import { OpenAIService } from './openai.service';
-import { GeminiService } from './gemini.service';
-import { AIProvider, AIRequest, AIResponse, ContentType, IAIService } from './types';
+import { AIGenerationResult, AIProvider, AIRequest, AIResponse, ContentType, IAIService, TokenHandler } from './types';
+import { AIAttempt, AIErrorKind, AIServiceError } from './errors';
+import { AIProviderRegistry } from './registry';
 
 export class AIServiceFactory {
   private static services: Map<string, IAIService> = new Map();
@@ -12,90 +12,201 @@ export class AIServiceFactory {
       return this.services.get(cacheKey)!;
     }
 
+    const definition = AIProviderRegistry.get(provider);
+    if (!definition) {
+      throw new Error(`Unsupported AI provider: ${provider}`);
+    }
+
+    const missingEnv = AIProviderRegistry.getMissingEnv(definition);
+    if (missingEnv.length > 0) {
+      throw new Error(`${definition.name} not configured: missing ${missingEnv.join(', ')}`);
+    }
+
     // Create new service instance
-    let service: IAIService;
+    const service = definition.create();
 
-    switch (provider) {
-      case AIProvider.OPENAI:
-        if (!process.env.OPENAI_API_KEY) {
-          throw new Error('OPENAI_API_KEY not configured');
-        }
-        service = new OpenAIService(process.env.OPENAI_API_KEY);
-        break;
+    this.services.set(cacheKey, service);
+    return service;
+  }
+
+  // Providers to try, in order: the requested provider first, then the configured fallback chain
+  private static getProviderChain(requested: AIProvider): AIProvider[] {
+    const fallbackChain = (process.env.AI_FALLBACK_CHAIN || '')
+      .split(',')
+      .map(p => p.trim())
+      .filter(p => AIProviderRegistry.has(p));
+
+    return [requested, ...fallbackChain.filter(p => p !== requested)];
+  }
+
+  private static getRetryPolicy() {
+    return {
+      maxRetries: Number(process.env.AI_MAX_RETRIES ?? 2),
+      baseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS ?? 500),
+      maxDelayMs: Number(process.env.AI_RETRY_MAX_DELAY_MS ?? 8000),
+    };
+  }
+
+  // Exponential backoff with jitter, honoring Retry-After when the provider sends one
+  private static getBackoffDelay(attempt: number, error: AIServiceError): number {
+    const { baseDelayMs, maxDelayMs } = this.getRetryPolicy();
+    const exponential = baseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * baseDelayMs;
+    return Math.min(Math.max(exponential + jitter, error.retryAfterMs || 0), maxDelayMs);
+  }
+
+  // Wait between retries, waking early if the request is cancelled
+  private static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) return resolve();
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Run a request against the provider chain, retrying retryable errors and falling back on failure.
+  // canContinue lets callers stop once retrying is no longer safe (e.g. a stream has already emitted tokens);
+  // once signal fires no further attempt is made, on this provider or any fallback.
+  private static async runWithFallback(
+    request: AIRequest,
+    run: (service: IAIService, request: AIRequest) => Promise<AIGenerationResult<string | string[]>>,
+    canContinue: () => boolean = () => true,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const { maxRetries } = this.getRetryPolicy();
+    const attempts: AIAttempt[] = [];
+    let lastError: AIServiceError | undefined;
 
-      case AIProvider.AZURE_OPENAI:
-        if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
-          throw new Error('Azure OpenAI credentials not configured');
+    const providers = request.fallback === false ? [request.provider] : this.getProviderChain(request.provider);
+
+    for (const provider of providers) {
+      // Model names are provider specific, so fallbacks use their own default model and its limits
+      const providerRequest: AIRequest = provider === request.provider
+        ? request
+        : {
+            ...request,
+            provider,
+            options: AIProviderRegistry.fitOptions(provider, request.contentType, { ...request.options, model: undefined }),
+          };
+
+      for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+        if (signal?.aborted) {
+          const cancelled = new AIServiceError('AI generation cancelled', AIErrorKind.CANCELLED, { provider });
+          cancelled.attempts = attempts;
+          throw cancelled;
         }
-        service = new OpenAIService(
-          process.env.AZURE_OPENAI_API_KEY,
-          true,
-          {
-            endpoint: process.env.AZURE_OPENAI_ENDPOINT,
-            deployment: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4',
-            apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview',
+
+        const startTime = Date.now();
+
+        try {
+          const service = this.getService(provider);
+          const result = await run(service, providerRequest);
+
+          attempts.push({ provider, attempt, success: true, durationMs: Date.now() - startTime });
+
+          return {
+            provider,
+            requestedProvider: request.provider,
+            contentType: request.contentType,
+            content: result.content,
+            usage: result.usage,
+            model: result.model || providerRequest.options?.model,
+            attempts,
+          };
+        } catch (error: any) {
+          lastError = AIServiceError.from(error, provider);
+          attempts.push({
+            provider,
+            attempt,
+            success: false,
+            errorKind: lastError.kind,
+            error: lastError.message,
+            durationMs: Date.now() - startTime,
+          });
+
+          console.warn(`AI ${provider} attempt ${attempt} failed (${lastError.kind}): ${lastError.message}`);
+
+          if (!canContinue() || !lastError.retryable || attempt > maxRetries) {
+            break;
           }
-        );
-        break;
 
-      case AIProvider.GEMINI:
-        if (!process.env.GEMINI_API_KEY) {
-          throw new Error('GEMINI_API_KEY not configured');
+          await this.delay(this.getBackoffDelay(attempt, lastError), signal);
         }
-        service = new GeminiService(process.env.GEMINI_API_KEY);
-        break;
+      }
 
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`);
+      if (!canContinue() || !lastError?.allowsFallback) {
+        break;
+      }
     }
 
-    this.services.set(cacheKey, service);
-    return service;
+    const failure = new AIServiceError(
+      `AI generation failed: ${lastError?.message || 'no provider available'}`,
+      lastError?.kind || AIErrorKind.UNKNOWN,
+      { provider: lastError?.provider, status: lastError?.status }
+    );
+    failure.attempts = attempts;
+    throw failure;
   }
 
-  static async generate(request: AIRequest): Promise<AIResponse> {
-    const service = this.getService(request.provider);
-
-    let content: string | string[];
-    let usage: any = undefined;
-
-    try {
-      switch (request.contentType) {
+  static async generate(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
+    return this.runWithFallback(request, (service, providerRequest) => {
+      switch (providerRequest.contentType) {
         case ContentType.TEXT:
-          content = await service.generateText(
-            request.prompt,
-            request.context,
-            request.options
+          return service.generateText(
+            providerRequest.prompt,
+            providerRequest.context,
+            providerRequest.options
           );
-          break;
 
         case ContentType.IMAGE:
-          content = await service.generateImage(
-            request.prompt,
-            request.options
+          return service.generateImage(
+            providerRequest.prompt,
+            providerRequest.options
           );
-          break;
 
         case ContentType.VIDEO:
-          content = await service.generateVideo(
-            request.prompt,
-            request.options
+          return service.generateVideo(
+            providerRequest.prompt,
+            providerRequest.options
           );
-          break;
 
         default:
-          throw new Error(`Unsupported content type: ${request.contentType}`);
+          throw new AIServiceError(`Unsupported content type: ${providerRequest.contentType}`, AIErrorKind.INVALID_REQUEST);
       }
+    }, undefined, signal);
+  }
 
-      return {
-        provider: request.provider,
-        contentType: request.contentType,
-        content,
-        usage,
-        model: request.options?.model,
-      };
-    } catch (error: any) {
-      throw new Error(`AI generation failed: ${error.message}`);
+  // Stream a text generation, forwarding each token to onToken as it arrives.
+  // Fallback only happens before the first token; after that a failure ends the stream.
+  static async stream(request: AIRequest, onToken: TokenHandler, signal?: AbortSignal): Promise<AIResponse> {
+    if (request.contentType !== ContentType.TEXT) {
+      throw new AIServiceError(`Streaming is only supported for ${ContentType.TEXT} content`, AIErrorKind.UNSUPPORTED);
     }
+
+    let hasEmitted = false;
+
+    return this.runWithFallback(
+      request,
+      (service, providerRequest) => service.streamText(
+        providerRequest.prompt,
+        (token) => {
+          hasEmitted = true;
+          onToken(token);
+        },
+        providerRequest.context,
+        providerRequest.options,
+        signal
+      ),
+      () => !hasEmitted && !signal?.aborted,
+      signal
+    );
   }
 }
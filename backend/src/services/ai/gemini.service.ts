@@ -1,5 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { IAIService } from './types';
+import { GenerationConfig, GoogleGenerativeAI, UsageMetadata } from '@google/generative-ai';
+import { IAIService, MediaGenerationResult, TextGenerationResult, TokenHandler } from './types';
 
 export class GeminiService implements IAIService {
     private client: GoogleGenerativeAI;
@@ -12,27 +12,89 @@ export class GeminiService implements IAIService {
         model?: string;
         temperature?: number;
         maxTokens?: number;
-    }): Promise<string> {
+    }): Promise<TextGenerationResult> {
         // Use gemini-1.5-flash or gemini-1.5-pro for the latest SDK
         const modelName = options?.model || "gemini-2.5-flash";
-        const model = this.client.getGenerativeModel({ model: modelName });
+        const model = this.client.getGenerativeModel({
+            model: modelName,
+            generationConfig: this.buildGenerationConfig(options),
+        });
 
-        const fullPrompt = context
+        const result = await model.generateContent(this.buildPrompt(prompt, context));
+        const response = await result.response;
+
+        return {
+            content: response.text(),
+            usage: this.toUsage(response.usageMetadata),
+            // The REST response carries modelVersion, but the SDK typings don't expose it yet
+            model: (response as { modelVersion?: string }).modelVersion || modelName,
+        };
+    }
+
+    async streamText(prompt: string, onToken: TokenHandler, context?: string, options?: {
+        model?: string;
+        temperature?: number;
+        maxTokens?: number;
+    }, signal?: AbortSignal): Promise<TextGenerationResult> {
+        const modelName = options?.model || "gemini-2.5-flash";
+        const model = this.client.getGenerativeModel({
+            model: modelName,
+            generationConfig: this.buildGenerationConfig(options),
+        });
+
+        const result = await model.generateContentStream(this.buildPrompt(prompt, context), { signal });
+
+        let content = '';
+        for await (const chunk of result.stream) {
+            const token = chunk.text();
+            if (token) {
+                content += token;
+                onToken(token);
+            }
+        }
+
+        // The aggregated response carries the usage for the whole stream
+        const response = await result.response;
+
+        return {
+            content,
+            usage: this.toUsage(response.usageMetadata),
+            model: (response as { modelVersion?: string }).modelVersion || modelName,
+        };
+    }
+
+    // Only pass limits the caller asked for: Gemini 2.5 counts thinking against maxOutputTokens,
+    // so a low default would truncate answers
+    private buildGenerationConfig(options?: { temperature?: number; maxTokens?: number }): GenerationConfig {
+        return {
+            ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
+            ...(options?.maxTokens ? { maxOutputTokens: options.maxTokens } : {}),
+        };
+    }
+
+    private buildPrompt(prompt: string, context?: string): string {
+        return context
             ? `Context: ${context}\n\nPrompt: ${prompt}`
             : prompt;
+    }
 
-        const result = await model.generateContent(fullPrompt);
-        const response = await result.response;
-        return response.text();
+    private toUsage(usage?: UsageMetadata): TextGenerationResult['usage'] {
+        if (!usage) return undefined;
+
+        return {
+            promptTokens: usage.promptTokenCount,
+            completionTokens: usage.candidatesTokenCount,
+            totalTokens: usage.totalTokenCount,
+        };
     }
 
-    async generateImage(_prompt: string, _options?: any): Promise<string[]> {
+    async generateImage(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
         // Gemini Pro Vision can analyze images but not generate them
         // Use Imagen API separately if needed
         throw new Error('Image generation not directly supported by Gemini Pro. Use Google Imagen API.');
     }
 
-    async generateVideo(_prompt: string, _options?: any): Promise<string[]> {
+    async generateVideo(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
         // Gemini doesn't support video generation
         throw new Error('Video generation not supported by Gemini');
     }
@@ -0,0 +1,18 @@
+import { OpenAIService } from './openai.service';
+import { MediaGenerationResult } from './types';
+
+// Local models served by Ollama (or any OpenAI-compatible server) through its /v1 endpoint
+export class OllamaService extends OpenAIService {
+  constructor(baseURL: string, defaultModel: string, apiKey?: string) {
+    // Ollama ignores the API key, but the OpenAI SDK requires one
+    super(apiKey || 'ollama', false, undefined, { baseURL, defaultModel });
+  }
+
+  async generateImage(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
+    throw new Error('Image generation not supported by Ollama');
+  }
+
+  async generateVideo(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
+    throw new Error('Video generation not supported by Ollama');
+  }
+}
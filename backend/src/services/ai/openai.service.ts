@@ -1,16 +1,21 @@
 import OpenAI from 'openai';
-import { IAIService } from './types';
+import { IAIService, MediaGenerationResult, TextGenerationResult, TokenHandler } from './types';
 
 export class OpenAIService implements IAIService {
   private client: OpenAI;
   private isAzure: boolean;
+  private defaultModel: string;
 
   constructor(apiKey: string, isAzure: boolean = false, azureConfig?: {
     endpoint: string;
     deployment: string;
     apiVersion: string;
+  }, compatibleConfig?: {
+    baseURL: string; // Any server implementing the OpenAI API, e.g. Ollama at http://127.0.0.1:11434/v1
+    defaultModel: string;
   }) {
     this.isAzure = isAzure;
+    this.defaultModel = compatibleConfig?.defaultModel || 'gpt-4o-mini';
     if (isAzure && azureConfig) {
       // Azure OpenAI requires specific configuration
       const azureEndpoint = azureConfig.endpoint.replace(/\/$/, ''); // Remove trailing slash
@@ -21,9 +26,10 @@ export class OpenAIService implements IAIService {
         defaultHeaders: { 
           'api-key': apiKey,
         },
+        maxRetries: 0, // Retries and fallback are handled by AIServiceFactory
       });
     } else {
-      this.client = new OpenAI({ apiKey });
+      this.client = new OpenAI({ apiKey, baseURL: compatibleConfig?.baseURL, maxRetries: 0 });
     }
   }
 
@@ -31,7 +37,72 @@ export class OpenAIService implements IAIService {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-  }): Promise<string> {
+  }): Promise<TextGenerationResult> {
+    const completionParams = this.buildCompletionParams(prompt, context, options);
+
+    const response = await this.client.chat.completions.create(completionParams);
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      // Azure reports the underlying model of the deployment here
+      model: response.model || completionParams.model,
+    };
+  }
+
+  async streamText(prompt: string, onToken: TokenHandler, context?: string, options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  }, signal?: AbortSignal): Promise<TextGenerationResult> {
+    const completionParams: OpenAI.ChatCompletionCreateParamsStreaming = {
+      ...this.buildCompletionParams(prompt, context, options),
+      stream: true,
+    };
+
+    // Older Azure API versions reject stream_options, so only ask OpenAI for the trailing usage chunk
+    if (!this.isAzure) {
+      completionParams.stream_options = { include_usage: true };
+    }
+
+    const stream = await this.client.chat.completions.create(completionParams, { signal });
+
+    let content = '';
+    let model: string | undefined = completionParams.model;
+    let usage: TextGenerationResult['usage'];
+
+    for await (const chunk of stream) {
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    return { content, usage, model };
+  }
+
+  private buildCompletionParams(prompt: string, context?: string, options?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  }): any {
     const messages: any[] = [];
     
     if (context) {
@@ -48,18 +119,17 @@ export class OpenAIService implements IAIService {
 
     const completionParams: any = {
       messages,
-      temperature: options?.temperature || 0.7,
-      max_tokens: options?.maxTokens || 1000,
+      temperature: options?.temperature ?? 0.7,
+      // Without a limit the model can use its whole completion budget
+      ...(options?.maxTokens ? { max_tokens: options.maxTokens } : {}),
     };
 
     // For Azure, the model is specified in the baseURL deployment, not here
     if (!this.isAzure) {
-      completionParams.model = options?.model || 'gpt-4o-mini';
+      completionParams.model = options?.model || this.defaultModel;
     }
 
-    const response = await this.client.chat.completions.create(completionParams);
-
-    return response.choices[0]?.message?.content || '';
+    return completionParams;
   }
 
   async generateImage(prompt: string, options?: {
@@ -68,9 +138,10 @@ export class OpenAIService implements IAIService {
     quality?: string;
     style?: string;
     n?: number;
-  }): Promise<string[]> {
+  }): Promise<MediaGenerationResult> {
+    const model = options?.model || 'dall-e-3';
     const response = await this.client.images.generate({
-      model: options?.model || 'dall-e-3',
+      model,
       prompt,
       n: options?.n || 1,
       size: (options?.size as any) || '1024x1024',
@@ -78,10 +149,14 @@ export class OpenAIService implements IAIService {
       style: (options?.style as any) || 'vivid',
     });
 
-    return response.data?.map(img => img.url || '').filter(Boolean) || [];
+    // Image generation is billed per image, so there is no token usage to report
+    return {
+      content: response.data?.map(img => img.url || '').filter(Boolean) || [],
+      model,
+    };
   }
 
-  async generateVideo(_prompt: string, _options?: any): Promise<string[]> {
+  async generateVideo(_prompt: string, _options?: any): Promise<MediaGenerationResult> {
     // OpenAI doesn't currently support video generation via API
     throw new Error('Video generation not supported by OpenAI');
   }
@@ -0,0 +1,48 @@
+import { AnthropicService } from '../anthropic.service';
+import { AIProviderDefinition, ContentType } from '../types';
+
+export const anthropicProvider: AIProviderDefinition = {
+  id: 'anthropic',
+  name: 'Anthropic Claude',
+  supports: [ContentType.TEXT],
+  models: [
+    {
+      id: 'claude-haiku-4-5',
+      name: 'Claude Haiku 4.5',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 64000,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 1 },
+    },
+    {
+      id: 'claude-sonnet-4-5',
+      name: 'Claude Sonnet 4.5',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 64000,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 1 },
+    },
+    {
+      id: 'claude-opus-4-1',
+      name: 'Claude Opus 4.1',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 32000,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 1 },
+    },
+  ],
+  requiredEnv: ['ANTHROPIC_API_KEY'],
+  pricing: {
+    'claude-haiku-4-5': { input: 1.00, output: 5.00 },
+    'claude-sonnet-4-5': { input: 3.00, output: 15.00 },
+    'claude-opus-4-1': { input: 15.00, output: 75.00 },
+    'claude-3-5-haiku': { input: 0.80, output: 4.00 },
+  },
+  create: () => new AnthropicService(
+    process.env.ANTHROPIC_API_KEY!,
+    Object.fromEntries(anthropicProvider.models.map(model => [model.id, model.maxTokens!]))
+  ),
+};
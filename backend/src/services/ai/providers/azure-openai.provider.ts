@@ -0,0 +1,42 @@
+import { OpenAIService } from '../openai.service';
+import { AIProviderDefinition, ContentType } from '../types';
+
+export const azureOpenaiProvider: AIProviderDefinition = {
+  id: 'azure-openai',
+  name: 'Azure OpenAI',
+  supports: [ContentType.TEXT, ContentType.IMAGE],
+  // The model is fixed by the deployment, so read it when asked rather than at import time
+  get models() {
+    const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4';
+    return [
+      {
+        id: deployment,
+        name: `${deployment} (deployment)`,
+        contentTypes: [ContentType.TEXT],
+        // Limits depend on the deployed model; these are safe for every current chat deployment
+        maxTokens: 4096,
+        supportsImages: false,
+        supportsSystemPrompt: true,
+        temperature: { min: 0, max: 2 },
+      },
+      { id: 'dall-e-3', name: 'DALL·E 3', contentTypes: [ContentType.IMAGE] },
+    ];
+  },
+  requiredEnv: ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_ENDPOINT'],
+  pricing: {
+    'gpt-4o-mini': { input: 0.165, output: 0.660 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'gpt-4': { input: 10.00, output: 30.00 },
+    'gpt-35-turbo': { input: 0.50, output: 1.50 },
+    'dall-e-3': { standard: 0.040, hd: 0.080 },
+  },
+  create: () => new OpenAIService(
+    process.env.AZURE_OPENAI_API_KEY!,
+    true,
+    {
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
+      deployment: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4',
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview',
+    }
+  ),
+};
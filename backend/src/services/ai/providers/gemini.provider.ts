@@ -0,0 +1,36 @@
+import { GeminiService } from '../gemini.service';
+import { AIProviderDefinition, ContentType } from '../types';
+
+export const geminiProvider: AIProviderDefinition = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  supports: [ContentType.TEXT],
+  models: [
+    {
+      id: 'gemini-2.5-flash',
+      name: 'Gemini 2.5 Flash',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 65536,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 2 },
+    },
+    {
+      id: 'gemini-2.5-pro',
+      name: 'Gemini 2.5 Pro',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 65536,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 2 },
+    },
+  ],
+  requiredEnv: ['GEMINI_API_KEY'],
+  pricing: {
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  },
+  create: () => new GeminiService(process.env.GEMINI_API_KEY!),
+};
@@ -0,0 +1,15 @@
+import { AIProviderDefinition } from '../types';
+import { openaiProvider } from './openai.provider';
+import { azureOpenaiProvider } from './azure-openai.provider';
+import { geminiProvider } from './gemini.provider';
+import { anthropicProvider } from './anthropic.provider';
+import { ollamaProvider } from './ollama.provider';
+
+// Built-in providers. To add one, write a provider module next to these and list it here.
+export const builtInProviders: AIProviderDefinition[] = [
+  openaiProvider,
+  azureOpenaiProvider,
+  geminiProvider,
+  anthropicProvider,
+  ollamaProvider,
+];
@@ -0,0 +1,42 @@
+import { OllamaService } from '../ollama.service';
+import { AIProviderDefinition, ContentType } from '../types';
+
+const getDefaultModel = () => process.env.OLLAMA_MODEL || 'llama3.2';
+
+export const ollamaProvider: AIProviderDefinition = {
+  id: 'ollama',
+  name: 'Ollama (Local)',
+  supports: [ContentType.TEXT],
+  // Whatever models have been pulled locally: OLLAMA_MODELS lists extras beyond the default
+  get models() {
+    const extraModels = (process.env.OLLAMA_MODELS || '')
+      .split(',')
+      .map(m => m.trim())
+      .filter(Boolean);
+
+    return Array.from(new Set([getDefaultModel(), ...extraModels]))
+      .map(id => ({
+        id,
+        name: id,
+        contentTypes: [ContentType.TEXT],
+        // Conservative limits since local models vary; Ollama accepts larger values via num_predict
+        maxTokens: 4096,
+        supportsImages: false,
+        supportsSystemPrompt: true,
+        temperature: { min: 0, max: 2 },
+      }));
+  },
+  requiredEnv: ['OLLAMA_BASE_URL'],
+  // Local models cost nothing per token; listed so they show up as priced in Analytics
+  pricing: {
+    'llama3.2': { input: 0, output: 0 },
+    'llama3.1': { input: 0, output: 0 },
+    'mistral': { input: 0, output: 0 },
+    'qwen2.5': { input: 0, output: 0 },
+  },
+  create: () => new OllamaService(
+    process.env.OLLAMA_BASE_URL!,
+    getDefaultModel(),
+    process.env.OLLAMA_API_KEY
+  ),
+};
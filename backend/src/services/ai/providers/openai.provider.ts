@@ -0,0 +1,47 @@
+import { OpenAIService } from '../openai.service';
+import { AIProviderDefinition, ContentType } from '../types';
+
+export const openaiProvider: AIProviderDefinition = {
+  id: 'openai',
+  name: 'OpenAI',
+  supports: [ContentType.TEXT, ContentType.IMAGE],
+  models: [
+    {
+      id: 'gpt-4o-mini',
+      name: 'GPT-4o mini',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 16384,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 2 },
+    },
+    {
+      id: 'gpt-4o',
+      name: 'GPT-4o',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 16384,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 2 },
+    },
+    {
+      id: 'gpt-4-turbo',
+      name: 'GPT-4 Turbo',
+      contentTypes: [ContentType.TEXT],
+      maxTokens: 4096,
+      supportsImages: true,
+      supportsSystemPrompt: true,
+      temperature: { min: 0, max: 2 },
+    },
+    { id: 'dall-e-3', name: 'DALL·E 3', contentTypes: [ContentType.IMAGE] },
+  ],
+  requiredEnv: ['OPENAI_API_KEY'],
+  // Pricing as of Nov 2024
+  pricing: {
+    'gpt-4o-mini': { input: 0.150, output: 0.600 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'gpt-4-turbo': { input: 10.00, output: 30.00 },
+    'dall-e-3': { standard: 0.040, hd: 0.080 },
+  },
+  create: () => new OpenAIService(process.env.OPENAI_API_KEY!),
+};
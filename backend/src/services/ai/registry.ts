@@ -0,0 +1,108 @@
+import { builtInProviders } from './providers';
+import { AIModelDefinition, AIModelPricing, AIProvider, AIProviderDefinition, AIRequest, AIUsage, ContentType } from './types';
+
+// Rough sizes for estimating a text request's cost before it runs
+const CHARS_PER_TOKEN = 4;
+const TYPICAL_COMPLETION_TOKENS = 1000; // Used when the request leaves maxTokens unset
+
+export class AIProviderRegistry {
+  private static providers: Map<AIProvider, AIProviderDefinition> = new Map(
+    builtInProviders.map(definition => [definition.id, definition])
+  );
+
+  static register(definition: AIProviderDefinition): void {
+    this.providers.set(definition.id, definition);
+  }
+
+  static get(id: AIProvider): AIProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  static has(id: AIProvider): boolean {
+    return this.providers.has(id);
+  }
+
+  static list(): AIProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  static ids(): AIProvider[] {
+    return Array.from(this.providers.keys());
+  }
+
+  static getMissingEnv(definition: AIProviderDefinition): string[] {
+    return definition.requiredEnv.filter(key => !process.env[key]);
+  }
+
+  // Providers whose required environment is present
+  static listConfigured(): AIProviderDefinition[] {
+    return this.list().filter(definition => this.getMissingEnv(definition).length === 0);
+  }
+
+  // The requested model, or the provider's default for the content type when none is given
+  static findModel(provider: AIProvider, contentType: ContentType, modelId?: string): AIModelDefinition | undefined {
+    const models = (this.get(provider)?.models || []).filter(model => model.contentTypes.includes(contentType));
+    return modelId ? models.find(model => model.id === modelId) : models[0];
+  }
+
+  // Clamp temperature and max tokens into what a model accepts, used when a fallback provider
+  // receives options that were validated against another provider's model
+  static fitOptions(provider: AIProvider, contentType: ContentType, options?: AIRequest['options']): AIRequest['options'] {
+    const model = this.findModel(provider, contentType, options?.model);
+    if (!model || !options) return options;
+
+    const fitted = { ...options };
+    if (fitted.temperature !== undefined && model.temperature) {
+      fitted.temperature = Math.min(Math.max(fitted.temperature, model.temperature.min), model.temperature.max);
+    }
+    if (fitted.maxTokens !== undefined && model.maxTokens) {
+      fitted.maxTokens = Math.min(fitted.maxTokens, model.maxTokens);
+    }
+    return fitted;
+  }
+
+  // Providers report dated snapshots (e.g. "gpt-4o-mini-2024-07-18") and Ollama reports tags
+  // (e.g. "llama3.2:latest"), so match the longest priced model prefix
+  static findPricing(provider: AIProvider, model: string): AIModelPricing | undefined {
+    const pricing = this.get(provider)?.pricing;
+    if (!pricing) return undefined;
+
+    const matches = Object.keys(pricing)
+      .filter(name => model === name || model.startsWith(`${name}-`) || model.startsWith(`${name}:`))
+      .sort((a, b) => b.length - a.length);
+
+    return matches.length > 0 ? pricing[matches[0]] : undefined;
+  }
+
+  // Estimated cost in USD of a text request that hasn't run yet: its prompt and context at about four characters
+  // per token, and maxTokens of output (a typical post's length when unset)
+  static estimateRequestCost(request: AIRequest): number {
+    const model = this.findModel(request.provider, request.contentType, request.options?.model);
+    if (!model || request.contentType !== ContentType.TEXT) return 0;
+
+    const promptTokens = Math.ceil(((request.prompt || '').length + (request.context || '').length) / CHARS_PER_TOKEN);
+    const completionTokens = request.options?.maxTokens ?? TYPICAL_COMPLETION_TOKENS;
+    return this.estimateCost(request.provider, model.id, request.contentType, {
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    });
+  }
+
+  // Estimated cost in USD for a generation
+  static estimateCost(provider: AIProvider, model: string, contentType: ContentType, details: {
+    usage?: AIUsage;
+    imageCount?: number;
+    quality?: string;
+  }): number {
+    const modelPricing = this.findPricing(provider, model);
+    if (!modelPricing) return 0;
+
+    if (contentType === ContentType.IMAGE) {
+      const perImage = details.quality === 'hd' ? modelPricing.hd : modelPricing.standard;
+      return (details.imageCount || 0) * (perImage || 0);
+    }
+
+    const inputCost = ((details.usage?.promptTokens || 0) / 1000000) * (modelPricing.input || 0);
+    const outputCost = ((details.usage?.completionTokens || 0) / 1000000) * (modelPricing.output || 0);
+    return inputCost + outputCost;
+  }
+}
@@ -1,9 +1,9 @@
+import type { AIAttempt } from './errors';
+
 // AI Service Types
-export enum AIProvider {
-  OPENAI = 'openai',
-  AZURE_OPENAI = 'azure-openai',
-  GEMINI = 'gemini',
-}
+
+// Provider id as declared in the provider registry, e.g. 'openai' or 'gemini'
+export type AIProvider = string;
 
 export enum ContentType {
   TEXT = 'text',
@@ -24,23 +24,80 @@ export interface AIRequest {
     quality?: string; // For images: "standard" or "hd"
     style?: string; // For images: "vivid" or "natural"
   };
+  fallback?: boolean; // Set to false to only try the requested provider
+}
+
+export interface AIUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
 }
 
 export interface AIResponse {
-  provider: AIProvider;
+  provider: AIProvider; // Provider that actually served the request
+  requestedProvider?: AIProvider; // Provider the caller asked for, if a fallback served it instead
   contentType: ContentType;
   content: string | string[]; // Text or URLs
-  usage?: {
-    promptTokens?: number;
-    completionTokens?: number;
-    totalTokens?: number;
-  };
+  usage?: AIUsage;
   model?: string;
+  attempts?: AIAttempt[];
+}
+
+// Result returned by a provider: the content plus what the provider reported about the call
+export interface AIGenerationResult<T> {
+  content: T;
+  usage?: AIUsage;
+  model?: string; // Model name as reported by the provider (e.g. "gpt-4o-mini-2024-07-18")
 }
 
+export type TextGenerationResult = AIGenerationResult<string>;
+export type MediaGenerationResult = AIGenerationResult<string[]>;
+
+// Receives each chunk of text as a provider streams it
+export type TokenHandler = (token: string) => void;
+
 // Abstract AI Service Interface
 export interface IAIService {
-  generateText(prompt: string, context?: string, options?: any): Promise<string>;
-  generateImage(prompt: string, options?: any): Promise<string[]>;
-  generateVideo(prompt: string, options?: any): Promise<string[]>;
+  generateText(prompt: string, context?: string, options?: any): Promise<TextGenerationResult>;
+  // Streams text through onToken and resolves with the full text and usage once the provider finishes
+  streamText(
+    prompt: string,
+    onToken: TokenHandler,
+    context?: string,
+    options?: any,
+    signal?: AbortSignal
+  ): Promise<TextGenerationResult>;
+  generateImage(prompt: string, options?: any): Promise<MediaGenerationResult>;
+  generateVideo(prompt: string, options?: any): Promise<MediaGenerationResult>;
+}
+
+// A model a provider offers for selection. The first model listed for a content type is the
+// provider's default for it. Limits only apply to text models.
+export interface AIModelDefinition {
+  id: string;
+  name: string;
+  contentTypes: ContentType[];
+  maxTokens?: number; // Largest completion the model will produce
+  supportsImages?: boolean; // Accepts images as input
+  supportsSystemPrompt?: boolean;
+  temperature?: { min: number; max: number };
+}
+
+// Token prices are per 1M tokens; image prices are per image
+export interface AIModelPricing {
+  input?: number;
+  output?: number;
+  standard?: number;
+  hd?: number;
+}
+
+// Everything the app needs to know about a provider, declared by its module in ./providers
+export interface AIProviderDefinition {
+  id: AIProvider;
+  name: string;
+  supports: ContentType[];
+  models: AIModelDefinition[];
+  requiredEnv: string[]; // Provider is available only when all of these are set
+  pricing: Record<string, AIModelPricing>; // Keyed by model name prefix
+  create(): IAIService;
 }
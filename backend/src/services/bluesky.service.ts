@@ -0,0 +1,278 @@
+import axios from 'axios';
+import { MediaFile } from './media.service';
+import { ThreadPostError } from './twitter.service';
+import { isRefreshRejected, PlatformApiError } from './social/publish-errors';
+
+export const DEFAULT_BLUESKY_SERVICE = 'https://bsky.social';
+
+// Bluesky rejects image blobs larger than this
+const MAX_IMAGE_BYTES = 1000000;
+
+const LINK_PATTERN = /https?:\/\/[^\s<>"]+/g;
+const MENTION_PATTERN = /(^|[\s(])@([a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+)/g;
+const TRAILING_PUNCTUATION = /[.,!?:;)\]}'"…]+$/;
+
+export interface BlueskySession {
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
+  service: string; // The account's PDS, where its records are written
+}
+
+interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+// Rich text annotation; Bluesky indexes facets by UTF-8 byte offsets, not characters
+interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: Array<{ $type: string; uri?: string; did?: string }>;
+}
+
+// Read a JWT's claims without verifying it; the server that issued it does that
+export function decodeJwt(token: string): { sub?: string; exp?: number } {
+  const payload = token.split('.')[1] || '';
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function byteOffset(text: string, index: number): number {
+  return Buffer.byteLength(text.slice(0, index), 'utf8');
+}
+
+export class BlueskyService {
+  private service: string;
+  private accessJwt: string;
+  private did: string;
+
+  constructor(service: string, accessJwt: string) {
+    this.service = service;
+    this.accessJwt = accessJwt;
+    this.did = decodeJwt(accessJwt).sub || '';
+  }
+
+  // Start a session with a handle (or email) and an app password. The password itself is not kept.
+  static async createSession(service: string, identifier: string, appPassword: string): Promise<BlueskySession> {
+    try {
+      const response = await axios.post(`${service}/xrpc/com.atproto.server.createSession`, {
+        identifier,
+        password: appPassword,
+      });
+
+      return this.toSession(service, response.data);
+    } catch (error: any) {
+      console.error('Bluesky login error:', error.response?.data || error.message);
+      if (error.response?.status === 401) {
+        throw new Error('Invalid Bluesky handle or app password');
+      }
+      throw new Error('Failed to log in to Bluesky');
+    }
+  }
+
+  // Swap a refresh JWT for a new session; the old refresh JWT stops working
+  static async refreshSession(service: string, refreshJwt: string): Promise<BlueskySession> {
+    try {
+      const response = await axios.post(`${service}/xrpc/com.atproto.server.refreshSession`, null, {
+        headers: { Authorization: `Bearer ${refreshJwt}` },
+      });
+
+      return this.toSession(service, response.data);
+    } catch (error: any) {
+      console.error('Bluesky session refresh error:', error.response?.data || error.message);
+      throw new PlatformApiError(
+        isRefreshRejected(error) ? 'Bluesky session expired. Please reconnect the account.' : 'Failed to refresh Bluesky session',
+        error
+      );
+    }
+  }
+
+  // End the session on the server so its JWTs can no longer be used
+  static async deleteSession(service: string, refreshJwt: string): Promise<void> {
+    await axios.post(`${service}/xrpc/com.atproto.server.deleteSession`, null, {
+      headers: { Authorization: `Bearer ${refreshJwt}` },
+    });
+  }
+
+  private static toSession(service: string, data: any): BlueskySession {
+    // Accounts hosted elsewhere than the entryway name their own PDS in the DID document
+    const pds = data.didDoc?.service?.find((s: any) => s.id === '#atproto_pds')?.serviceEndpoint;
+
+    return {
+      did: data.did,
+      handle: data.handle,
+      accessJwt: data.accessJwt,
+      refreshJwt: data.refreshJwt,
+      service: pds || service,
+    };
+  }
+
+  // Get the authenticated account's profile
+  async getProfile(): Promise<{ did: string; handle: string; displayName: string }> {
+    try {
+      const response = await axios.get(`${this.service}/xrpc/app.bsky.actor.getProfile`, {
+        params: { actor: this.did },
+        headers: this.headers(),
+      });
+
+      return {
+        did: response.data.did,
+        handle: response.data.handle,
+        displayName: response.data.displayName || response.data.handle,
+      };
+    } catch (error: any) {
+      console.error('Bluesky profile error:', error.response?.data || error.message);
+      throw new Error('Failed to fetch Bluesky profile');
+    }
+  }
+
+  // Create a post, with images already loaded via MediaService.resolveMedia
+  async createPost(text: string, media: MediaFile[] = [], reply?: { root: PostRef; parent: PostRef }): Promise<PostRef & { url: string }> {
+    try {
+      const record: Record<string, unknown> = {
+        $type: 'app.bsky.feed.post',
+        text,
+        createdAt: new Date().toISOString(),
+      };
+
+      const facets = await this.buildFacets(text);
+      if (facets.length > 0) {
+        record.facets = facets;
+      }
+
+      if (media.length > 0) {
+        const images = [];
+        for (const file of media) {
+          images.push({ alt: '', image: await this.uploadBlob(file) });
+        }
+        record.embed = { $type: 'app.bsky.embed.images', images };
+      }
+
+      if (reply) {
+        record.reply = reply;
+      }
+
+      const response = await axios.post(
+        `${this.service}/xrpc/com.atproto.repo.createRecord`,
+        { repo: this.did, collection: 'app.bsky.feed.post', record },
+        { headers: this.headers() }
+      );
+
+      const { uri, cid } = response.data;
+      return { uri, cid, url: this.getPostUrl(uri) };
+    } catch (error: any) {
+      console.error('Bluesky post error:', error.response?.data || error.message);
+      throw new PlatformApiError(error.response?.data?.message || error.message || 'Failed to post to Bluesky', error);
+    }
+  }
+
+  // Post each segment as a reply to the one before; images go on the first post
+  async postThread(segments: string[], media: MediaFile[] = []): Promise<{ uris: string[]; url: string }> {
+    const posts: Array<PostRef & { url: string }> = [];
+
+    for (const [index, segment] of segments.entries()) {
+      try {
+        const reply = index === 0 ? undefined : { root: posts[0], parent: posts[index - 1] };
+        posts.push(await this.createPost(segment, index === 0 ? media : [], reply));
+      } catch (error: any) {
+        throw new ThreadPostError(
+          `Thread stopped at post ${index + 1} of ${segments.length}: ${error.message}`,
+          posts.map(post => post.uri),
+          error
+        );
+      }
+    }
+
+    return { uris: posts.map(post => post.uri), url: posts[0].url };
+  }
+
+  // Get like, repost and reply counts for a post
+  async getPostMetrics(uri: string): Promise<{ likes: number; reposts: number; replies: number }> {
+    try {
+      const response = await axios.get(`${this.service}/xrpc/app.bsky.feed.getPosts`, {
+        params: { uris: uri },
+        headers: this.headers(),
+      });
+
+      const post = response.data.posts[0];
+      if (!post) {
+        throw new Error('Post not found');
+      }
+
+      return {
+        likes: post.likeCount ?? 0,
+        reposts: (post.repostCount ?? 0) + (post.quoteCount ?? 0),
+        replies: post.replyCount ?? 0,
+      };
+    } catch (error: any) {
+      console.error('Bluesky metrics error:', error.response?.data || error.message);
+      throw new Error('Failed to fetch Bluesky post metrics');
+    }
+  }
+
+  // Links become link facets; @handles become mention facets when the handle resolves to an account
+  private async buildFacets(text: string): Promise<Facet[]> {
+    const facets: Facet[] = [];
+
+    for (const match of text.matchAll(LINK_PATTERN)) {
+      const uri = match[0].replace(TRAILING_PUNCTUATION, '');
+      const start = match.index!;
+      facets.push({
+        index: { byteStart: byteOffset(text, start), byteEnd: byteOffset(text, start + uri.length) },
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+      });
+    }
+
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      const handle = match[2].replace(TRAILING_PUNCTUATION, '');
+      const did = await this.resolveHandle(handle);
+      if (!did) continue;
+
+      const start = match.index! + match[1].length;
+      facets.push({
+        index: { byteStart: byteOffset(text, start), byteEnd: byteOffset(text, start + handle.length + 1) },
+        features: [{ $type: 'app.bsky.richtext.facet#mention', did }],
+      });
+    }
+
+    return facets;
+  }
+
+  private async resolveHandle(handle: string): Promise<string | null> {
+    try {
+      const response = await axios.get(`${this.service}/xrpc/com.atproto.identity.resolveHandle`, {
+        params: { handle },
+      });
+      return response.data.did;
+    } catch {
+      return null;
+    }
+  }
+
+  private async uploadBlob(file: MediaFile): Promise<unknown> {
+    if (file.data.length > MAX_IMAGE_BYTES) {
+      throw new Error(`Image is ${Math.round(file.data.length / 1000)} KB; Bluesky accepts images up to 1 MB`);
+    }
+
+    const response = await axios.post(`${this.service}/xrpc/com.atproto.repo.uploadBlob`, file.data, {
+      headers: { ...this.headers(), 'Content-Type': file.mimeType },
+      maxBodyLength: Infinity,
+    });
+
+    return response.data.blob;
+  }
+
+  // at://<did>/app.bsky.feed.post/<rkey> -> https://bsky.app/profile/<did>/post/<rkey>
+  private getPostUrl(uri: string): string {
+    const [, , did, , rkey] = uri.split('/');
+    return `https://bsky.app/profile/${did}/post/${rkey}`;
+  }
+
+  private headers() {
+    return { Authorization: `Bearer ${this.accessJwt}` };
+  }
+}
@@ -0,0 +1,119 @@
+import prisma from '../db';
+
+export interface BudgetStatus {
+  scope: 'user' | 'global';
+  monthlyLimit: number;
+  spent: number;
+  remaining: number;
+  warnThreshold: number;
+  warning: boolean; // Spending has passed the warn threshold
+  exceeded: boolean; // Spending has reached the limit; generation is blocked
+  resetsAt: string; // Start of next month (UTC)
+}
+
+export interface BudgetSummary {
+  user: BudgetStatus | null;
+  global: BudgetStatus | null;
+  blocked: boolean;
+  warning: string | null;
+}
+
+export class BudgetExceededError extends Error {
+  budget: BudgetStatus;
+
+  // estimatedCost is set when the budget isn't used up yet but the request would go past it
+  constructor(budget: BudgetStatus, estimatedCost?: number) {
+    const owner = budget.scope === 'user' ? 'your' : "the team's";
+    super(
+      estimatedCost !== undefined && !budget.exceeded
+        ? `This request would cost about $${estimatedCost.toFixed(2)}, more than the $${budget.remaining.toFixed(2)} left of ${owner} monthly AI budget.`
+        : budget.scope === 'user'
+          ? `Monthly AI budget of $${budget.monthlyLimit.toFixed(2)} reached. Generation resumes ${budget.resetsAt.slice(0, 10)}.`
+          : `The team's monthly AI budget of $${budget.monthlyLimit.toFixed(2)} has been reached. Generation resumes ${budget.resetsAt.slice(0, 10)}.`
+    );
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+  }
+}
+
+export class BudgetService {
+  private static getMonthBounds(now = new Date()) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { start, end };
+  }
+
+  // Sum of estimated cost this month, for one user or (without a userId) for everyone
+  private static async getMonthlySpend(userId?: string): Promise<number> {
+    const { start } = this.getMonthBounds();
+    const result = await prisma.generationRequest.aggregate({
+      where: {
+        ...(userId ? { userId } : {}),
+        createdAt: { gte: start },
+      },
+      _sum: { estimatedCost: true },
+    });
+    return result._sum.estimatedCost || 0;
+  }
+
+  private static toStatus(
+    scope: BudgetStatus['scope'],
+    budget: { monthlyLimit: number; warnThreshold: number },
+    spent: number
+  ): BudgetStatus {
+    const { end } = this.getMonthBounds();
+    const roundedSpent = Math.round(spent * 10000) / 10000;
+
+    return {
+      scope,
+      monthlyLimit: budget.monthlyLimit,
+      spent: roundedSpent,
+      remaining: Math.max(0, Math.round((budget.monthlyLimit - spent) * 10000) / 10000),
+      warnThreshold: budget.warnThreshold,
+      warning: spent >= budget.monthlyLimit * budget.warnThreshold,
+      exceeded: spent >= budget.monthlyLimit,
+      resetsAt: end.toISOString(),
+    };
+  }
+
+  // Current state of the user's budget and the global budget; either may be unset
+  static async getSummary(userId: string): Promise<BudgetSummary> {
+    const [userBudget, globalBudget] = await Promise.all([
+      prisma.aIBudget.findUnique({ where: { userId } }),
+      prisma.aIBudget.findFirst({ where: { userId: null } }),
+    ]);
+
+    const [userSpent, globalSpent] = await Promise.all([
+      userBudget ? this.getMonthlySpend(userId) : Promise.resolve(0),
+      globalBudget ? this.getMonthlySpend() : Promise.resolve(0),
+    ]);
+
+    const user = userBudget ? this.toStatus('user', userBudget, userSpent) : null;
+    const global = globalBudget ? this.toStatus('global', globalBudget, globalSpent) : null;
+    const warned = [user, global].find(status => status?.warning && !status.exceeded);
+
+    return {
+      user,
+      global,
+      blocked: !!(user?.exceeded || global?.exceeded),
+      warning: warned
+        ? `${warned.scope === 'user' ? 'You have' : 'The team has'} used ${Math.round((warned.spent / warned.monthlyLimit) * 100)}% of the monthly AI budget ($${warned.remaining.toFixed(2)} left)`
+        : null,
+    };
+  }
+
+  // Throws BudgetExceededError when the user or global budget is used up, or when estimatedCost (for requests that
+  // spend several generations at once) would take it past its limit
+  static async assertWithinBudget(userId: string, estimatedCost = 0): Promise<BudgetSummary> {
+    const summary = await this.getSummary(userId);
+
+    const overBudget = (status: BudgetStatus | null) =>
+      !!status && (status.exceeded || (estimatedCost > 0 && status.spent + estimatedCost > status.monthlyLimit));
+    const exceeded = overBudget(summary.user) ? summary.user : overBudget(summary.global) ? summary.global : null;
+    if (exceeded) {
+      throw new BudgetExceededError(exceeded, estimatedCost > 0 ? estimatedCost : undefined);
+    }
+
+    return summary;
+  }
+}
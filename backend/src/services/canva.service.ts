@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import axios from 'axios';
+import { isRefreshRejected, PlatformApiError } from './social/publish-errors';
 
 export class CanvaService {
   private accessToken: string;
@@ -138,10 +139,33 @@ export class CanvaService {
       };
     } catch (error: any) {
       console.error('Canva token refresh error:', error.response?.data || error.message);
-      throw new Error('Failed to refresh Canva access token');
+      throw new PlatformApiError(
+        isRefreshRejected(error) ? 'Canva token expired. Please reconnect the account.' : 'Failed to refresh Canva access token',
+        error
+      );
     }
   }
 
+  // Revoke an access or refresh token
+  static async revokeToken(token: string): Promise<void> {
+    const clientId = process.env.CANVA_CLIENT_ID;
+    const clientSecret = process.env.CANVA_CLIENT_SECRET;
+    const apiBaseUrl = process.env.CANVA_API_URL || 'https://api.canva.com';
+
+    const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+
+    await axios.post(
+      `${apiBaseUrl}/rest/v1/oauth/revoke`,
+      new URLSearchParams({ token }).toString(),
+      {
+        headers: {
+          'Authorization': `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      }
+    );
+  }
+
   // Get user profile
   async getProfile(): Promise<{ id: string; displayName: string; email?: string }> {
     try {
@@ -0,0 +1,152 @@
+import { ContentValidationService } from './content-validation.service';
+
+describe('ContentValidationService.platformsFor', () => {
+  it('expands the legacy "both" target', () => {
+    expect(ContentValidationService.platformsFor('both')).toEqual(['twitter', 'linkedin']);
+  });
+
+  it('parses a comma separated list without duplicates', () => {
+    expect(ContentValidationService.platformsFor('twitter, mastodon,twitter')).toEqual(['twitter', 'mastodon']);
+  });
+
+  it('returns nothing when any platform is unknown', () => {
+    expect(ContentValidationService.platformsFor('twitter,myspace')).toEqual([]);
+  });
+
+  it('does not treat inherited object keys or non-strings as platforms', () => {
+    expect(ContentValidationService.isPlatform('toString')).toBe(false);
+    expect(ContentValidationService.platformsFor('twitter,constructor')).toEqual([]);
+    expect(ContentValidationService.platformsFor(42)).toEqual([]);
+    expect(ContentValidationService.platformsFor(['twitter'])).toEqual([]);
+  });
+});
+
+describe('ContentValidationService.validate', () => {
+  it('rejects empty content', () => {
+    const result = ContentValidationService.validate('linkedin', { content: '   ' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Content is empty']);
+  });
+
+  it('suggests a thread for a tweet over the limit', () => {
+    const result = ContentValidationService.validate('twitter', { content: 'a'.repeat(281) });
+
+    expect(result.length).toBe(281);
+    expect(result.errors).toEqual(['Tweet is 281 characters (max 280). Post it as a thread instead.']);
+  });
+
+  it('uses weighted counting for Twitter and plain code points elsewhere', () => {
+    const text = '你'.repeat(150);
+
+    expect(ContentValidationService.validate('twitter', { content: text }).valid).toBe(false);
+    expect(ContentValidationService.validate('bluesky', { content: text }).valid).toBe(true);
+  });
+
+  it('checks Twitter threads tweet by tweet', () => {
+    const result = ContentValidationService.validate('twitter', {
+      content: 'ignored',
+      threadSegments: ['fine', 'a'.repeat(290)],
+    });
+
+    expect(result.length).toBe(290);
+    expect(result.errors).toEqual(['Tweet 2: Tweet is 10 characters over the 280 limit']);
+  });
+
+  it('checks Bluesky threads post by post', () => {
+    const result = ContentValidationService.validate('bluesky', {
+      content: 'ignored',
+      threadSegments: ['fine', 'a'.repeat(301)],
+    });
+
+    expect(result.errors).toEqual(['Post 2: Post is 1 characters over the 300 limit']);
+  });
+
+  it('ignores thread segments on platforms without threads', () => {
+    const result = ContentValidationService.validate('linkedin', {
+      content: 'A single post',
+      threadSegments: ['a'.repeat(5000)],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.length).toBe('A single post'.length);
+  });
+
+  it('counts the Mastodon content warning toward the limit', () => {
+    const result = ContentValidationService.validate('mastodon', {
+      content: 'a'.repeat(490),
+      contentWarning: 'b'.repeat(20),
+    });
+
+    expect(result.length).toBe(510);
+    expect(result.errors).toEqual(['Post is 510 characters including the content warning (max 500)']);
+  });
+
+  it('counts Mastodon links as 23 characters and remote mentions by username', () => {
+    const result = ContentValidationService.validate('mastodon', {
+      content: `https://example.com/${'x'.repeat(600)} @alice@mastodon.social`,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.length).toBe(23 + 1 + '@alice'.length);
+  });
+
+  it('warns above the recommended hashtag count and fails above the maximum', () => {
+    const warned = ContentValidationService.validate('twitter', { content: 'Launch #one #two #three' });
+    expect(warned.valid).toBe(true);
+    expect(warned.warnings).toEqual(['3 hashtags; Twitter posts do best with 2 or fewer']);
+
+    const failed = ContentValidationService.validate('twitter', { content: '#a #b #c #d #e #f' });
+    expect(failed.errors).toEqual(['6 hashtags (max 5 on Twitter)']);
+  });
+
+  it('warns about hashtags made only of numbers', () => {
+    const result = ContentValidationService.validate('linkedin', { content: 'Happy new year #2025' });
+
+    expect(result.warnings).toEqual(['Hashtags made only of numbers are not linked']);
+  });
+
+  it('rejects mentions that are not valid handles on the platform', () => {
+    const result = ContentValidationService.validate('twitter', {
+      content: 'Thanks @alice! And @this_handle_is_far_too_long.',
+    });
+
+    expect(result.errors).toEqual(['"@this_handle_is_far_too_long" is not a valid Twitter handle']);
+  });
+
+  it('only warns about mentions where they are not tagged', () => {
+    const result = ContentValidationService.validate('linkedin', { content: 'Thanks @alice' });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      'LinkedIn does not tag @mentions in posts published here; they will appear as plain text',
+    ]);
+  });
+
+  it('limits attached media per platform', () => {
+    expect(ContentValidationService.validate('twitter', { content: 'Pics', mediaCount: 5 }).errors)
+      .toEqual(['5 images attached (max 4 on Twitter)']);
+    expect(ContentValidationService.validate('linkedin', { content: 'Pics', mediaCount: 5 }).valid).toBe(true);
+  });
+});
+
+describe('ContentValidationService.validateAll', () => {
+  it('validates each platform against its own variant of the text', () => {
+    const results = ContentValidationService.validateAll(
+      ['twitter', 'linkedin'],
+      { content: 'a'.repeat(500) },
+      { twitter: 'Short version' }
+    );
+
+    expect(results.map(result => [result.platform, result.valid])).toEqual([
+      ['twitter', true],
+      ['linkedin', true],
+    ]);
+  });
+
+  it('falls back to the shared content without variants', () => {
+    const [result] = ContentValidationService.validateAll(['twitter'], { content: 'a'.repeat(281) }, null);
+
+    expect(result.valid).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { checkThread, countTweetLength } from '../utils/tweet-text';
+
+export type SocialPlatform = 'twitter' | 'linkedin' | 'mastodon' | 'bluesky';
+
+export interface PlatformRules {
+  name: string;
+  maxLength: number;
+  maxMedia: number;
+  maxHashtags: number;
+  recommendedHashtags: number; // More than this only warns
+  threads: boolean; // Can be published as a reply chain of threadSegments
+  // Valid handle after the "@", or null when the platform can't tag mentions from plain text
+  mentionPattern: RegExp | null;
+  countLength: (text: string) => number;
+}
+
+export interface ContentToValidate {
+  content: string;
+  mediaCount?: number;
+  threadSegments?: string[]; // Platforms with threads: validated post by post instead of content
+  contentWarning?: string | null; // Mastodon only: counts toward the length limit
+}
+
+export interface ValidationResult {
+  platform: SocialPlatform;
+  valid: boolean;
+  length: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export const PLATFORM_RULES: Record<SocialPlatform, PlatformRules> = {
+  twitter: {
+    name: 'Twitter',
+    maxLength: 280,
+    maxMedia: 4,
+    maxHashtags: 5,
+    recommendedHashtags: 2,
+    threads: true,
+    mentionPattern: /^[A-Za-z0-9_]{1,15}$/,
+    countLength: countTweetLength,
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    maxLength: 3000,
+    maxMedia: 9,
+    maxHashtags: 30,
+    recommendedHashtags: 5,
+    threads: false,
+    mentionPattern: null,
+    countLength: text => [...text].length,
+  },
+  mastodon: {
+    name: 'Mastodon',
+    maxLength: 500, // Default for Mastodon instances; some allow more
+    maxMedia: 4,
+    maxHashtags: 30,
+    recommendedHashtags: 5,
+    threads: false,
+    mentionPattern: /^[A-Za-z0-9_]{1,30}$/,
+    countLength: countMastodonLength,
+  },
+  bluesky: {
+    name: 'Bluesky',
+    maxLength: 300, // Bluesky counts graphemes; code points match for everything but combined emoji
+    maxMedia: 4,
+    maxHashtags: 30,
+    recommendedHashtags: 3,
+    threads: true,
+    mentionPattern: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/, // Full handles, e.g. alice.bsky.social
+    countLength: text => [...text].length,
+  },
+};
+
+// Mastodon counts every link as 23 characters and a remote mention (@user@domain) by its username only
+function countMastodonLength(text: string): number {
+  const normalized = text
+    .replace(/https?:\/\/\S+/g, 'x'.repeat(23))
+    .replace(/(@[A-Za-z0-9_]+)@[\w.-]+\w/g, '$1');
+  return [...normalized].length;
+}
+
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_@])@([^\s@]+)/gu;
+const TRAILING_PUNCTUATION = /[.,!?:;)\]}'"…]+$/;
+
+export class ContentValidationService {
+  // Own keys only, so names inherited from Object.prototype such as "toString" aren't platforms
+  static isPlatform(platform: string): platform is SocialPlatform {
+    return Object.prototype.hasOwnProperty.call(PLATFORM_RULES, platform);
+  }
+
+  // Platforms a scheduled post targets, e.g. 'both' -> ['twitter', 'linkedin'] or 'twitter,mastodon'.
+  // Returns [] when any of them is unknown, or the target isn't a string at all (it comes from request bodies).
+  static platformsFor(target: unknown): SocialPlatform[] {
+    if (typeof target !== 'string') {
+      return [];
+    }
+    if (target === 'both') {
+      return ['twitter', 'linkedin'];
+    }
+
+    const platforms = [...new Set(target.split(',').map(platform => platform.trim()))];
+    return platforms.every(platform => this.isPlatform(platform)) ? platforms as SocialPlatform[] : [];
+  }
+
+  static validate(platform: SocialPlatform, input: ContentToValidate): ValidationResult {
+    const rules = PLATFORM_RULES[platform];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const segments = rules.threads && input.threadSegments?.length ? input.threadSegments : null;
+    const text = segments ? segments.join('\n') : input.content || '';
+    const contentWarning = platform === 'mastodon' ? input.contentWarning || '' : '';
+    const length = segments
+      ? Math.max(...segments.map(rules.countLength))
+      : rules.countLength(text) + [...contentWarning].length;
+
+    if (!text.trim()) {
+      errors.push('Content is empty');
+    } else if (segments && platform === 'twitter') {
+      for (const check of checkThread(segments)) {
+        if (!check.valid) errors.push(`Tweet ${check.index + 1}: ${check.error}`);
+      }
+    } else if (segments) {
+      segments.forEach((segment, index) => {
+        const segmentLength = rules.countLength(segment);
+        if (!segment.trim()) {
+          errors.push(`Post ${index + 1}: Post is empty`);
+        } else if (segmentLength > rules.maxLength) {
+          errors.push(`Post ${index + 1}: Post is ${segmentLength - rules.maxLength} characters over the ${rules.maxLength} limit`);
+        }
+      });
+    } else if (length > rules.maxLength) {
+      errors.push(
+        platform === 'twitter'
+          ? `Tweet is ${length} characters (max ${rules.maxLength}). Post it as a thread instead.`
+          : `Post is ${length} characters${contentWarning ? ' including the content warning' : ''} (max ${rules.maxLength})`
+      );
+    }
+
+    const hashtags = [...text.matchAll(HASHTAG_PATTERN)].map(match => match[1]);
+    if (hashtags.length > rules.maxHashtags) {
+      errors.push(`${hashtags.length} hashtags (max ${rules.maxHashtags} on ${rules.name})`);
+    } else if (hashtags.length > rules.recommendedHashtags) {
+      warnings.push(`${hashtags.length} hashtags; ${rules.name} posts do best with ${rules.recommendedHashtags} or fewer`);
+    }
+    if (hashtags.some(tag => /^\d+$/.test(tag))) {
+      warnings.push('Hashtags made only of numbers are not linked');
+    }
+
+    const mentions = [...text.matchAll(MENTION_PATTERN)]
+      .map(match => match[1].replace(TRAILING_PUNCTUATION, ''))
+      .filter(Boolean);
+    if (mentions.length > 0) {
+      if (rules.mentionPattern) {
+        const pattern = rules.mentionPattern;
+        for (const mention of mentions.filter(handle => !pattern.test(handle))) {
+          errors.push(`"@${mention}" is not a valid ${rules.name} handle`);
+        }
+      } else {
+        warnings.push(`${rules.name} does not tag @mentions in posts published here; they will appear as plain text`);
+      }
+    }
+
+    const mediaCount = input.mediaCount || 0;
+    if (mediaCount > rules.maxMedia) {
+      errors.push(`${mediaCount} images attached (max ${rules.maxMedia} on ${rules.name})`);
+    }
+
+    return { platform, valid: errors.length === 0, length, errors, warnings };
+  }
+
+  // Validate content for several platforms at once, with an optional per-platform override of the text
+  static validateAll(
+    platforms: SocialPlatform[],
+    input: ContentToValidate,
+    variants: Partial<Record<SocialPlatform, string | null>> | null = {}
+  ): ValidationResult[] {
+    return platforms.map(platform => this.validate(platform, {
+      ...input,
+      content: variants?.[platform] || input.content,
+    }));
+  }
+}
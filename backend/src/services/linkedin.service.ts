@@ -1,4 +1,23 @@
 import axios from 'axios';
+import { MediaFile } from './media.service';
+import { isRefreshRejected, PlatformApiError } from './social/publish-errors';
+
+// Posting as a company page needs these scopes, which LinkedIn grants only to apps approved for the Community Management API
+const ORGANIZATION_SCOPES = 'w_organization_social r_organization_social rw_organization_admin';
+
+export interface LinkedInOrganization {
+  urn: string; // urn:li:organization:<id>, used as the post author
+  id: string;
+  name: string;
+  vanityName?: string;
+}
+
+export interface LinkedInTokens {
+  accessToken: string;
+  expiresIn: number; // Seconds
+  refreshToken?: string;
+  refreshTokenExpiresIn?: number; // Seconds
+}
 
 export class LinkedInService {
   private accessToken: string;
@@ -7,19 +26,24 @@ export class LinkedInService {
     this.accessToken = accessToken;
   }
 
+  // Organization scopes are requested only when LINKEDIN_ORGANIZATION_POSTING=true
+  static organizationPostingEnabled(): boolean {
+    return process.env.LINKEDIN_ORGANIZATION_POSTING === 'true';
+  }
+
   // Generate LinkedIn OAuth URL
   static generateAuthUrl(callbackUrl: string, state: string): string {
     const clientId = process.env.LINKEDIN_CLIENT_ID;
-    const scope = 'openid profile w_member_social email';
+    const scope = this.organizationPostingEnabled()
+      ? `openid profile w_member_social email ${ORGANIZATION_SCOPES}`
+      : 'openid profile w_member_social email';
 
     return `https://www.linkedin.com/oauth/v2/authorization?response_type=code&client_id=${clientId}&redirect_uri=${encodeURIComponent(callbackUrl)}&state=${state}&scope=${encodeURIComponent(scope)}`;
   }
 
-  // Exchange authorization code for access token
-  static async getAccessToken(code: string, redirectUri: string): Promise<{
-    accessToken: string;
-    expiresIn: number;
-  }> {
+  // Exchange authorization code for access token. LinkedIn issues refresh tokens only to apps
+  // approved for programmatic refresh; other apps get just the ~60 day access token.
+  static async getAccessToken(code: string, redirectUri: string): Promise<LinkedInTokens> {
     try {
       const response = await axios.post(
         'https://www.linkedin.com/oauth/v2/accessToken',
@@ -38,16 +62,46 @@ export class LinkedInService {
         }
       );
 
-      return {
-        accessToken: response.data.access_token,
-        expiresIn: response.data.expires_in,
-      };
+      return this.toTokens(response.data);
     } catch (error: any) {
       console.error('LinkedIn token exchange error:', error.response?.data || error.message);
       throw new Error('Failed to exchange LinkedIn authorization code');
     }
   }
 
+  // Swap a refresh token for a new access token; the refresh token keeps its original expiry
+  static async refreshAccessToken(refreshToken: string): Promise<LinkedInTokens> {
+    try {
+      const response = await axios.post(
+        'https://www.linkedin.com/oauth/v2/accessToken',
+        new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: process.env.LINKEDIN_CLIENT_ID!,
+          client_secret: process.env.LINKEDIN_CLIENT_SECRET!,
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      return this.toTokens(response.data);
+    } catch (error: any) {
+      console.error('LinkedIn token refresh error:', error.response?.data || error.message);
+      throw new PlatformApiError(
+        isRefreshRejected(error) ? 'LinkedIn token expired. Please reconnect the account.' : 'Failed to refresh LinkedIn token',
+        error
+      );
+    }
+  }
+
+  private static toTokens(data: any): LinkedInTokens {
+    return {
+      accessToken: data.access_token,
+      expiresIn: data.expires_in,
+      refreshToken: data.refresh_token,
+      refreshTokenExpiresIn: data.refresh_token_expires_in,
+    };
+  }
+
   // Get user profile
   async getProfile(): Promise<{ id: string; name: string; email?: string }> {
     try {
@@ -68,49 +122,196 @@ export class LinkedInService {
     }
   }
 
-  // Post to LinkedIn
-  async postText(text: string): Promise<{ id: string; url: string }> {
+  // Company pages the member is an approved administrator of
+  async getAdministeredOrganizations(): Promise<LinkedInOrganization[]> {
     try {
-      // First, get the user's LinkedIn ID
-      const profile = await this.getProfile();
-
-      // Create a post (share)
-      const response = await axios.post(
-        'https://api.linkedin.com/v2/ugcPosts',
-        {
-          author: `urn:li:person:${profile.id}`,
-          lifecycleState: 'PUBLISHED',
-          specificContent: {
-            'com.linkedin.ugc.ShareContent': {
-              shareCommentary: {
-                text: text,
-              },
-              shareMediaCategory: 'NONE',
-            },
-          },
-          visibility: {
-            'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC',
-          },
+      const response = await axios.get('https://api.linkedin.com/v2/organizationAcls', {
+        params: {
+          q: 'roleAssignee',
+          role: 'ADMINISTRATOR',
+          state: 'APPROVED',
+          projection: '(elements*(organization~(id,localizedName,vanityName)))',
         },
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'X-Restli-Protocol-Version': '2.0.0',
+        },
+      });
+
+      return (response.data.elements || []).map((element: any) => {
+        const organization = element['organization~'] || {};
+        const id = String(organization.id ?? element.organization.split(':').pop());
+        return {
+          urn: element.organization,
+          id,
+          name: organization.localizedName || `Organization ${id}`,
+          vanityName: organization.vanityName,
+        };
+      });
+    } catch (error: any) {
+      console.error('LinkedIn organizations error:', error.response?.data || error.message);
+      if (error.response?.status === 403) {
+        throw new Error('LinkedIn did not grant access to company pages. Reconnect LinkedIn to allow it.');
+      }
+      throw new Error('Failed to fetch LinkedIn company pages');
+    }
+  }
+
+  // Revoke an access token so it can no longer be used
+  static async revokeToken(accessToken: string): Promise<void> {
+    await axios.post(
+      'https://www.linkedin.com/oauth/v2/revoke',
+      new URLSearchParams({
+        token: accessToken,
+        client_id: process.env.LINKEDIN_CLIENT_ID!,
+        client_secret: process.env.LINKEDIN_CLIENT_SECRET!,
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+  }
+
+  // Get like and comment counts for a share
+  async getPostMetrics(postUrn: string): Promise<{ likes: number; replies: number }> {
+    try {
+      const response = await axios.get(
+        `https://api.linkedin.com/v2/socialActions/${encodeURIComponent(postUrn)}`,
         {
           headers: {
             Authorization: `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
             'X-Restli-Protocol-Version': '2.0.0',
           },
         }
       );
 
-      const postId = response.data.id;
-      const postUrl = `https://www.linkedin.com/feed/update/${postId}`;
-
       return {
-        id: postId,
-        url: postUrl,
+        likes: response.data.likesSummary?.totalLikes ?? 0,
+        replies: response.data.commentsSummary?.totalFirstLevelComments ?? 0,
       };
+    } catch (error: any) {
+      console.error('LinkedIn metrics error:', error.response?.data || error.message);
+      throw new Error('Failed to fetch LinkedIn post metrics');
+    }
+  }
+
+  // Post to LinkedIn as the member, or as a company page they administer when its URN is given
+  async postText(text: string, author?: string | null): Promise<{ id: string; url: string; author: string }> {
+    try {
+      const authorUrn = author || await this.getPersonUrn();
+
+      return { ...await this.createShare(authorUrn, text), author: authorUrn };
+    } catch (error: any) {
+      console.error('LinkedIn post error:', error.response?.data || error.message);
+      throw new PlatformApiError(this.postErrorMessage(error, author), error);
+    }
+  }
+
+  // Post to LinkedIn with images, already loaded via MediaService.resolveMedia
+  async postWithMedia(text: string, media: MediaFile[], author?: string | null): Promise<{ id: string; url: string; author: string }> {
+    try {
+      const authorUrn = author || await this.getPersonUrn();
+
+      // Each image is registered, uploaded, then referenced by its asset URN in the share
+      const assets: string[] = [];
+      for (const file of media) {
+        assets.push(await this.uploadImage(authorUrn, file));
+      }
+
+      return { ...await this.createShare(authorUrn, text, assets), author: authorUrn };
     } catch (error: any) {
       console.error('LinkedIn post error:', error.response?.data || error.message);
-      throw new Error('Failed to post to LinkedIn');
+      throw new PlatformApiError(this.postErrorMessage(error, author), error);
+    }
+  }
+
+  private async getPersonUrn(): Promise<string> {
+    const profile = await this.getProfile();
+    return `urn:li:person:${profile.id}`;
+  }
+
+  // A 403 when posting as a page means the member isn't its admin or the organization scopes weren't granted
+  private postErrorMessage(error: any, author?: string | null): string {
+    if (author?.startsWith('urn:li:organization:') && error.response?.status === 403) {
+      return 'Not allowed to post as this LinkedIn company page. Make sure you are its admin and reconnect LinkedIn.';
     }
+    return 'Failed to post to LinkedIn';
+  }
+
+  // Register an image upload for the author, upload the binary and return the asset URN
+  private async uploadImage(owner: string, file: MediaFile): Promise<string> {
+    const registerResponse = await axios.post(
+      'https://api.linkedin.com/v2/assets?action=registerUpload',
+      {
+        registerUploadRequest: {
+          recipes: ['urn:li:digitalmediaRecipe:feedshare-image'],
+          owner,
+          serviceRelationships: [
+            {
+              relationshipType: 'OWNER',
+              identifier: 'urn:li:userGeneratedContent',
+            },
+          ],
+        },
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+          'X-Restli-Protocol-Version': '2.0.0',
+        },
+      }
+    );
+
+    const { asset, uploadMechanism } = registerResponse.data.value;
+    const uploadUrl = uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl;
+
+    await axios.put(uploadUrl, file.data, {
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': file.mimeType,
+      },
+      maxBodyLength: Infinity,
+    });
+
+    return asset;
+  }
+
+  // Create a share (UGC post), with images when asset URNs are given
+  private async createShare(author: string, text: string, assets: string[] = []): Promise<{ id: string; url: string }> {
+    const response = await axios.post(
+      'https://api.linkedin.com/v2/ugcPosts',
+      {
+        author,
+        lifecycleState: 'PUBLISHED',
+        specificContent: {
+          'com.linkedin.ugc.ShareContent': {
+            shareCommentary: {
+              text: text,
+            },
+            shareMediaCategory: assets.length > 0 ? 'IMAGE' : 'NONE',
+            ...(assets.length > 0 ? {
+              media: assets.map(asset => ({ status: 'READY', media: asset })),
+            } : {}),
+          },
+        },
+        visibility: {
+          'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC',
+        },
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+          'X-Restli-Protocol-Version': '2.0.0',
+        },
+      }
+    );
+
+    const postId = response.data.id;
+    const postUrl = `https://www.linkedin.com/feed/update/${postId}`;
+
+    return {
+      id: postId,
+      url: postUrl,
+    };
   }
 }
@@ -0,0 +1,139 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MastodonService } from './mastodon.service';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: string;
+}
+
+// A fake Mastodon instance with just the endpoints the connector uses, listening on localhost
+async function startFakeInstance(): Promise<{ url: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({
+        method: req.method!,
+        path: url.pathname,
+        authorization: req.headers.authorization,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+
+      const json = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      switch (`${req.method} ${url.pathname}`) {
+        case 'POST /api/v1/apps':
+          return json(200, { client_id: 'fake-client-id', client_secret: 'fake-client-secret' });
+        case 'GET /oauth/authorize': {
+          const redirect = new URL(url.searchParams.get('redirect_uri')!);
+          redirect.searchParams.set('code', 'fake-code');
+          redirect.searchParams.set('state', url.searchParams.get('state')!);
+          res.writeHead(302, { Location: redirect.toString() });
+          return res.end();
+        }
+        case 'POST /oauth/token':
+          return json(200, { access_token: 'fake-access-token' });
+        case 'GET /api/v1/accounts/verify_credentials':
+          return json(200, { id: '42', acct: 'alice', display_name: 'Alice' });
+        case 'POST /api/v2/media':
+          return json(200, { id: 'media-1', url: 'https://files.example/media-1.png' });
+        case 'POST /api/v1/statuses':
+          return json(200, { id: 'status-1', url: 'https://fake.example/@alice/status-1' });
+        default:
+          return json(404, { error: 'Not found' });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('MastodonService.normalizeInstanceUrl', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('refuses plain http and private hosts by default', async () => {
+    delete process.env.ALLOW_PRIVATE_SERVICE_HOSTS;
+
+    await expect(MastodonService.normalizeInstanceUrl('http://mastodon.example')).rejects.toThrow('must use https');
+    await expect(MastodonService.normalizeInstanceUrl('localhost')).rejects.toThrow('private network address');
+    await expect(MastodonService.normalizeInstanceUrl('10.0.0.5')).rejects.toThrow('private network address');
+    await expect(MastodonService.normalizeInstanceUrl('https://169.254.169.254/latest')).rejects.toThrow('private network address');
+  });
+
+  it('accepts a local instance when private service hosts are allowed', async () => {
+    process.env.ALLOW_PRIVATE_SERVICE_HOSTS = 'true';
+
+    await expect(MastodonService.normalizeInstanceUrl(' HTTP://127.0.0.1:3100/@alice ')).resolves.toBe('http://127.0.0.1:3100');
+  });
+
+  it('ignores the override in production', async () => {
+    process.env.ALLOW_PRIVATE_SERVICE_HOSTS = 'true';
+    process.env.NODE_ENV = 'production';
+
+    await expect(MastodonService.normalizeInstanceUrl('http://127.0.0.1:3100')).rejects.toThrow('must use https');
+  });
+});
+
+describe('MastodonService against a fake instance', () => {
+  let instance: Awaited<ReturnType<typeof startFakeInstance>>;
+
+  beforeEach(async () => {
+    instance = await startFakeInstance();
+  });
+
+  afterEach(async () => {
+    await instance.close();
+  });
+
+  it('registers, authorizes and posts a status with media and a content warning', async () => {
+    const redirectUri = 'http://localhost:3000/api/social/mastodon/callback';
+
+    const app = await MastodonService.registerApp(instance.url, redirectUri);
+    expect(app).toEqual({ clientId: 'fake-client-id', clientSecret: 'fake-client-secret' });
+
+    const authUrl = new URL(MastodonService.generateAuthUrl(instance.url, app.clientId, redirectUri, 'state-1'));
+    expect(authUrl.origin).toBe(instance.url);
+    expect(authUrl.searchParams.get('state')).toBe('state-1');
+
+    const accessToken = await MastodonService.getAccessToken(instance.url, app, 'fake-code', redirectUri);
+    expect(accessToken).toBe('fake-access-token');
+
+    const service = new MastodonService(instance.url, accessToken);
+    expect(await service.getProfile()).toEqual({ id: '42', username: 'alice', displayName: 'Alice' });
+
+    const status = await service.postStatus('Hello fediverse', {
+      media: [{ data: Buffer.from('png'), mimeType: 'image/png' }],
+      contentWarning: 'Spoilers',
+    });
+    expect(status).toEqual({ id: 'status-1', url: 'https://fake.example/@alice/status-1' });
+
+    const posted = instance.requests.find(request => request.path === '/api/v1/statuses')!;
+    expect(posted.authorization).toBe('Bearer fake-access-token');
+    expect(JSON.parse(posted.body)).toEqual({
+      status: 'Hello fediverse',
+      media_ids: ['media-1'],
+      spoiler_text: 'Spoilers',
+      sensitive: true,
+    });
+  });
+});
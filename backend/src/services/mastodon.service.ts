@@ -0,0 +1,195 @@
+import axios from 'axios';
+import { MediaFile } from './media.service';
+import { PlatformApiError } from './social/publish-errors';
+import { assertPublicServiceUrl } from '../utils/public-host';
+
+const SCOPES = 'read:accounts read:statuses write:statuses write:media';
+
+// Uploaded media may still be processing; wait this long for it before posting
+const MEDIA_POLL_INTERVAL_MS = 1000;
+const MEDIA_POLL_ATTEMPTS = 10;
+
+export class MastodonService {
+  private instanceUrl: string;
+  private accessToken: string;
+
+  constructor(instanceUrl: string, accessToken: string) {
+    this.instanceUrl = instanceUrl;
+    this.accessToken = accessToken;
+  }
+
+  // Turn user input like "mastodon.social" or "https://mastodon.social/@me" into an instance base URL.
+  // The instance must be a public https server; a local test instance over plain http needs ALLOW_PRIVATE_SERVICE_HOSTS.
+  static async normalizeInstanceUrl(input: string): Promise<string> {
+    const trimmed = input.trim();
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const instanceUrl = `${url.protocol}//${url.host}`.toLowerCase();
+
+    await assertPublicServiceUrl(instanceUrl, 'Mastodon instance');
+    return instanceUrl;
+  }
+
+  // Register an OAuth app with the instance; every instance issues its own client credentials
+  static async registerApp(instanceUrl: string, redirectUri: string): Promise<{
+    clientId: string;
+    clientSecret: string;
+  }> {
+    try {
+      const response = await axios.post(`${instanceUrl}/api/v1/apps`, {
+        client_name: 'Buzzalicious',
+        redirect_uris: redirectUri,
+        scopes: SCOPES,
+        website: process.env.FRONTEND_URL,
+      });
+
+      return {
+        clientId: response.data.client_id,
+        clientSecret: response.data.client_secret,
+      };
+    } catch (error: any) {
+      console.error('Mastodon app registration error:', error.response?.data || error.message);
+      throw new Error(`Failed to register with Mastodon instance ${instanceUrl}`);
+    }
+  }
+
+  // Generate Mastodon OAuth URL
+  static generateAuthUrl(instanceUrl: string, clientId: string, redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: SCOPES,
+      state,
+    });
+
+    return `${instanceUrl}/oauth/authorize?${params.toString()}`;
+  }
+
+  // Exchange authorization code for access token. Mastodon tokens don't expire.
+  static async getAccessToken(
+    instanceUrl: string,
+    app: { clientId: string; clientSecret: string },
+    code: string,
+    redirectUri: string
+  ): Promise<string> {
+    try {
+      const response = await axios.post(`${instanceUrl}/oauth/token`, {
+        grant_type: 'authorization_code',
+        code,
+        client_id: app.clientId,
+        client_secret: app.clientSecret,
+        redirect_uri: redirectUri,
+        scope: SCOPES,
+      });
+
+      return response.data.access_token;
+    } catch (error: any) {
+      console.error('Mastodon token exchange error:', error.response?.data || error.message);
+      throw new Error('Failed to exchange Mastodon authorization code');
+    }
+  }
+
+  // Revoke an access token so it can no longer be used
+  static async revokeToken(instanceUrl: string, app: { clientId: string; clientSecret: string }, accessToken: string): Promise<void> {
+    await axios.post(`${instanceUrl}/oauth/revoke`, {
+      client_id: app.clientId,
+      client_secret: app.clientSecret,
+      token: accessToken,
+    });
+  }
+
+  // Get the authenticated account
+  async getProfile(): Promise<{ id: string; username: string; displayName: string }> {
+    try {
+      const response = await axios.get(`${this.instanceUrl}/api/v1/accounts/verify_credentials`, {
+        headers: this.headers(),
+      });
+
+      return {
+        id: response.data.id,
+        username: response.data.acct,
+        displayName: response.data.display_name || response.data.username,
+      };
+    } catch (error: any) {
+      console.error('Mastodon profile error:', error.response?.data || error.message);
+      throw new Error('Failed to fetch Mastodon profile');
+    }
+  }
+
+  // Post a status, with images already loaded via MediaService.resolveMedia and an optional content warning
+  async postStatus(text: string, options: { media?: MediaFile[]; contentWarning?: string | null } = {}): Promise<{
+    id: string;
+    url: string;
+  }> {
+    try {
+      const mediaIds: string[] = [];
+      for (const file of options.media || []) {
+        mediaIds.push(await this.uploadMedia(file));
+      }
+
+      const response = await axios.post(
+        `${this.instanceUrl}/api/v1/statuses`,
+        {
+          status: text,
+          media_ids: mediaIds,
+          spoiler_text: options.contentWarning || undefined,
+          // Media behind a content warning is hidden too
+          sensitive: options.contentWarning ? true : undefined,
+        },
+        { headers: this.headers() }
+      );
+
+      return {
+        id: response.data.id,
+        url: response.data.url,
+      };
+    } catch (error: any) {
+      console.error('Mastodon post error:', error.response?.data || error.message);
+      throw new PlatformApiError(error.response?.data?.error || 'Failed to post to Mastodon', error);
+    }
+  }
+
+  // Get favourite, boost and reply counts for a status
+  async getStatusMetrics(statusId: string): Promise<{ likes: number; reposts: number; replies: number }> {
+    try {
+      const response = await axios.get(`${this.instanceUrl}/api/v1/statuses/${statusId}`, {
+        headers: this.headers(),
+      });
+
+      return {
+        likes: response.data.favourites_count ?? 0,
+        reposts: response.data.reblogs_count ?? 0,
+        replies: response.data.replies_count ?? 0,
+      };
+    } catch (error: any) {
+      console.error('Mastodon metrics error:', error.response?.data || error.message);
+      throw new Error('Failed to fetch Mastodon status metrics');
+    }
+  }
+
+  // Upload a file and return its media id once the instance has finished processing it
+  private async uploadMedia(file: MediaFile): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([file.data], { type: file.mimeType }), 'upload');
+
+    const response = await axios.post(`${this.instanceUrl}/api/v2/media`, form, {
+      headers: this.headers(),
+      maxBodyLength: Infinity,
+    });
+
+    // 202 means the upload was accepted but is still processing
+    let attachment = response.data;
+    for (let attempt = 0; response.status === 202 && !attachment.url && attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, MEDIA_POLL_INTERVAL_MS));
+      attachment = (await axios.get(`${this.instanceUrl}/api/v1/media/${attachment.id}`, {
+        headers: this.headers(),
+      })).data;
+    }
+
+    return attachment.id;
+  }
+
+  private headers() {
+    return { Authorization: `Bearer ${this.accessToken}` };
+  }
+}
@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { MediaAsset } from '@prisma/client';
+import prisma from '../db';
+import { StorageFactory } from './storage/factory';
+import { assertPublicHost } from '../utils/public-host';
+
+// Media ready to upload to a social platform
+export interface MediaFile {
+  data: Buffer;
+  mimeType: string;
+}
+
+const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 3;
+const DEFAULT_LIST_LIMIT = 24;
+const MAX_LIST_LIMIT = 100;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+};
+
+// Matches our own file URLs, relative or absolute: /api/media/<id>/file
+const INTERNAL_URL_PATTERN = /\/api\/media\/([0-9a-f-]+)\/file(?:\?.*)?$/i;
+
+export class MediaService {
+  // Authenticated URL the frontend and social routes use for an asset
+  static getFileUrl(assetId: string): string {
+    return `/api/media/${assetId}/file`;
+  }
+
+  static toResponse(asset: MediaAsset) {
+    return {
+      id: asset.id,
+      url: this.getFileUrl(asset.id),
+      mimeType: asset.mimeType,
+      sizeBytes: asset.sizeBytes,
+      prompt: asset.prompt,
+      generationRequestId: asset.generationRequestId,
+      createdAt: asset.createdAt,
+    };
+  }
+
+  // Download a remote file (e.g. an expiring DALL·E URL) into storage and record it
+  static async saveFromUrl(userId: string, url: string, details: {
+    generationRequestId?: string;
+    prompt?: string;
+  } = {}): Promise<MediaAsset> {
+    const file = await this.download(url);
+    const id = randomUUID();
+    const driver = StorageFactory.getDefaultDriver();
+    const storageKey = `${userId}/${id}${EXTENSIONS[file.mimeType] || ''}`;
+
+    await driver.put(storageKey, file.data, file.mimeType);
+
+    return prisma.mediaAsset.create({
+      data: {
+        id,
+        userId,
+        generationRequestId: details.generationRequestId,
+        storageDriver: driver.name,
+        storageKey,
+        mimeType: file.mimeType,
+        sizeBytes: file.data.length,
+        prompt: details.prompt,
+        sourceUrl: url,
+      },
+    });
+  }
+
+  // Persist every generated file, returning our URLs in the same order.
+  // A file that fails to download keeps its provider URL so the generation still succeeds.
+  static async saveGeneratedMedia(
+    userId: string,
+    generationRequestId: string,
+    urls: string[],
+    prompt: string
+  ): Promise<string[]> {
+    return Promise.all(urls.map(async (url) => {
+      try {
+        const asset = await this.saveFromUrl(userId, url, { generationRequestId, prompt });
+        return this.getFileUrl(asset.id);
+      } catch (error) {
+        console.error('Failed to persist generated media:', error);
+        return url;
+      }
+    }));
+  }
+
+  static async list(userId: string, options: { limit?: number; before?: Date } = {}): Promise<MediaAsset[]> {
+    return prisma.mediaAsset.findMany({
+      where: {
+        userId,
+        ...(options.before ? { createdAt: { lt: options.before } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(Math.trunc(options.limit || DEFAULT_LIST_LIMIT), 1), MAX_LIST_LIMIT),
+    });
+  }
+
+  // Returns null when the asset doesn't exist or belongs to someone else
+  static async getFile(userId: string, assetId: string): Promise<MediaFile | null> {
+    const asset = await prisma.mediaAsset.findFirst({ where: { id: assetId, userId } });
+    if (!asset) return null;
+
+    const stored = await StorageFactory.getDriver(asset.storageDriver).get(asset.storageKey);
+    return { data: stored.data, mimeType: asset.mimeType };
+  }
+
+  static async delete(userId: string, assetId: string): Promise<boolean> {
+    const asset = await prisma.mediaAsset.findFirst({ where: { id: assetId, userId } });
+    if (!asset) return false;
+
+    await StorageFactory.getDriver(asset.storageDriver).delete(asset.storageKey);
+    await prisma.mediaAsset.delete({ where: { id: asset.id } });
+    return true;
+  }
+
+  // Load media for posting: our own asset URLs are read from storage, anything else is downloaded
+  static async resolveMedia(userId: string, urls: string[]): Promise<MediaFile[]> {
+    return Promise.all(urls.map(async (url) => {
+      const match = INTERNAL_URL_PATTERN.exec(url);
+      if (match) {
+        const file = await this.getFile(userId, match[1]);
+        if (!file) {
+          throw new Error(`Media not found: ${url}`);
+        }
+        return file;
+      }
+
+      return this.download(url);
+    }));
+  }
+
+  // Redirects are followed by hand so each hop's host is checked too
+  private static async download(url: string): Promise<MediaFile> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      throw new Error(`Unsupported media URL: ${url}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+    const tooLarge = () => new Error(`Media exceeds ${MAX_MEDIA_BYTES / (1024 * 1024)}MB: ${url}`);
+
+    try {
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        // Media URLs come from users and AI providers, so no hop may reach the server's own network
+        await assertPublicHost(target, 'Media URL');
+        response = await fetch(target, { signal: controller.signal, redirect: 'manual' });
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) break;
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects downloading media: ${url}`);
+        }
+        target = new URL(location, target);
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to download media (${response.status}): ${url}`);
+      }
+
+      const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim();
+      // SVG can carry scripts, which would run on our origin when the file is served back
+      if ((!mimeType.startsWith('image/') && !mimeType.startsWith('video/')) || mimeType === 'image/svg+xml') {
+        throw new Error(`Unsupported media type "${mimeType}": ${url}`);
+      }
+
+      if (Number(response.headers.get('content-length')) > MAX_MEDIA_BYTES) {
+        throw tooLarge();
+      }
+
+      // The declared length can be missing or wrong, so the body is capped as it streams in
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const reader = response.body!.getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.length;
+        if (size > MAX_MEDIA_BYTES) {
+          throw tooLarge();
+        }
+        chunks.push(Buffer.from(chunk.value));
+      }
+
+      return { data: Buffer.concat(chunks), mimeType };
+    } finally {
+      clearTimeout(timeout);
+      // Stops any download still in progress, e.g. after hitting the size cap
+      controller.abort();
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import prisma from '../db';
+import { SchedulerService, VariantOutcome } from './scheduler.service';
+import { PublishErrorKind } from './social/publish-errors';
+
+// Keep the real Prisma client out of the test; cases that touch the database stub the calls they make
+jest.mock('../db', () => ({ __esModule: true, default: {} }));
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+function outcome(status: string, errorKind: PublishErrorKind | null = null): VariantOutcome {
+  return { status, postId: null, threadIds: [], postedAt: null, error: errorKind ? 'Failed' : null, errorKind };
+}
+
+describe('SchedulerService.withRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.SCHEDULED_POST_MAX_ATTEMPTS;
+  });
+
+  it('backs off exponentially from two minutes', () => {
+    const delays = [1, 2, 3, 4].map(attempts =>
+      SchedulerService.withRetry(outcome('failed', 'retryable'), attempts).nextAttemptAt!.getTime() - NOW.getTime()
+    );
+
+    expect(delays).toEqual([2 * MINUTE, 4 * MINUTE, 8 * MINUTE, 16 * MINUTE]);
+  });
+
+  it('marks a retryable failure as retrying', () => {
+    expect(SchedulerService.withRetry(outcome('failed', 'retryable'), 1).status).toBe('retrying');
+  });
+
+  it('caps the delay at an hour', () => {
+    process.env.SCHEDULED_POST_MAX_ATTEMPTS = '10';
+    const result = SchedulerService.withRetry(outcome('failed', 'retryable'), 8);
+
+    expect(result.nextAttemptAt!.getTime() - NOW.getTime()).toBe(60 * MINUTE);
+  });
+
+  it('gives up once the variant runs out of attempts', () => {
+    expect(SchedulerService.withRetry(outcome('failed', 'retryable'), 5)).toMatchObject({ status: 'failed', nextAttemptAt: null });
+
+    process.env.SCHEDULED_POST_MAX_ATTEMPTS = '2';
+    expect(SchedulerService.withRetry(outcome('failed', 'retryable'), 2)).toMatchObject({ status: 'failed', nextAttemptAt: null });
+  });
+
+  it('does not retry failures that would fail again', () => {
+    for (const errorKind of ['auth', 'content', 'permanent'] as const) {
+      expect(SchedulerService.withRetry(outcome('failed', errorKind), 1)).toMatchObject({ status: 'failed', nextAttemptAt: null });
+    }
+    expect(SchedulerService.withRetry(outcome('posted'), 1)).toMatchObject({ status: 'posted', nextAttemptAt: null });
+  });
+});
+
+describe('SchedulerService.nextAttemptAt', () => {
+  it('is the earliest retry among retrying variants', () => {
+    const soon = new Date(NOW.getTime() + 2 * MINUTE);
+    const later = new Date(NOW.getTime() + 8 * MINUTE);
+
+    expect(SchedulerService.nextAttemptAt([
+      { status: 'retrying', nextAttemptAt: later },
+      { status: 'retrying', nextAttemptAt: soon },
+      { status: 'failed', nextAttemptAt: null },
+    ])).toEqual(soon);
+    expect(SchedulerService.nextAttemptAt([{ status: 'posted', nextAttemptAt: null }])).toBeNull();
+  });
+});
+
+describe('SchedulerService.rollUpStatus', () => {
+  const rollUp = (...statuses: string[]) => SchedulerService.rollUpStatus(statuses.map(status => ({ status })));
+
+  it('is retrying while any variant is waiting for another attempt', () => {
+    expect(rollUp('posted', 'retrying')).toBe('retrying');
+    expect(rollUp('failed', 'retrying')).toBe('retrying');
+  });
+
+  it('is partial when some variants went out and others failed or were cancelled', () => {
+    expect(rollUp('posted', 'failed')).toBe('partial');
+    expect(rollUp('posted', 'failed', 'cancelled')).toBe('partial');
+    expect(rollUp('posted', 'cancelled')).toBe('partial');
+  });
+
+  it('is posted when every variant went out', () => {
+    expect(rollUp('posted', 'posted')).toBe('posted');
+  });
+
+  it('is failed when nothing went out', () => {
+    expect(rollUp('failed', 'failed')).toBe('failed');
+    expect(rollUp('failed', 'cancelled')).toBe('failed');
+    expect(rollUp()).toBe('failed');
+  });
+
+  it('is cancelled only when every variant was cancelled', () => {
+    expect(rollUp('cancelled', 'cancelled')).toBe('cancelled');
+  });
+});
+
+describe('SchedulerService.processDuePosts', () => {
+  const db = prisma as unknown as Record<string, unknown>;
+
+  afterEach(() => {
+    delete db.$queryRaw;
+    delete db.scheduledPost;
+  });
+
+  it('moves on when a claimed post was deleted before it was read', async () => {
+    const queryRaw = jest.fn()
+      .mockResolvedValueOnce([{ id: 'deleted-1', previousStatus: 'pending' }])
+      .mockResolvedValueOnce([{ id: 'deleted-2', previousStatus: 'pending' }])
+      .mockResolvedValueOnce([]);
+    db.$queryRaw = queryRaw;
+    db.scheduledPost = { findUnique: jest.fn().mockResolvedValue(null) };
+
+    await SchedulerService.processDuePosts();
+
+    expect(queryRaw).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,132 +1,209 @@
-import { PrismaClient } from '@prisma/client';
-import { TwitterService } from './twitter.service';
-import { LinkedInService } from './linkedin.service';
+import os from 'os';
+import prisma from '../db';
+import { ThreadPostError } from './twitter.service';
+import { MediaFile, MediaService } from './media.service';
+import { ContentValidationService } from './content-validation.service';
+import { SocialConnectorRegistry } from './social/registry';
+import { ConnectedAccountService } from './social/account.service';
+import { classifyPublishError, PublishErrorKind } from './social/publish-errors';
 
-const prisma = new PrismaClient();
+export interface VariantOutcome {
+  status: string;
+  postId: string | null;
+  threadIds: string[];
+  postedAt: Date | null;
+  error: string | null;
+  errorKind: PublishErrorKind | null;
+}
+
+// Identifies this process in claims, e.g. "worker.1:4242" on Heroku
+const WORKER_ID = `${process.env.DYNO || os.hostname()}:${process.pid}`;
+
+// How long a claim lasts without being renewed; renewed after each variant is published.
+// A process that dies mid-post loses its claim after this and another one finishes the post.
+const LEASE_MS = 10 * 60 * 1000;
+
+// Attempts per variant before a retryable failure is given up on; SCHEDULED_POST_MAX_ATTEMPTS overrides it
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Retries wait 2, 4, 8... minutes, up to an hour
+const RETRY_BASE_DELAY_MS = 2 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+function getMaxAttempts(): number {
+  const value = Number(process.env.SCHEDULED_POST_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
 
 export class SchedulerService {
-  // Process all pending scheduled posts that are due
-  static async processDuePosts(): Promise<void> {
-    try {
-      const now = new Date();
-      
-      // Find all pending posts that are due
-      const duePosts = await prisma.scheduledPost.findMany({
-        where: {
-          status: 'pending',
-          scheduledFor: {
-            lte: now,
-          },
-        },
-        include: {
-          user: true,
-        },
-      });
+  private static currentRun: Promise<void> | null = null;
+  private static started = false;
+  private static stopping = false;
 
-      console.log(`Found ${duePosts.length} posts to process`);
+  // Process all pending scheduled posts that are due. A run already in progress is joined, not repeated.
+  static processDuePosts(): Promise<void> {
+    if (!this.currentRun) {
+      this.currentRun = this.claimAndProcess().finally(() => {
+        this.currentRun = null;
+      });
+    }
+    return this.currentRun;
+  }
 
-      for (const post of duePosts) {
-        await this.processPost(post);
-      }
-    } catch (error) {
-      console.error('Error processing scheduled posts:', error);
+  // Process due posts now instead of on the next tick, if this process runs the scheduler
+  static wake(): void {
+    if (this.started && !this.stopping) {
+      this.processDuePosts();
     }
   }
 
-  // Process a single scheduled post
-  private static async processPost(post: any): Promise<void> {
-    const { id, content, platform, user } = post;
-    let twitterSuccess = false;
-    let linkedinSuccess = false;
-    let twitterError: string | null = null;
-    let linkedinError: string | null = null;
-    let twitterPostId: string | null = null;
-    let linkedinPostId: string | null = null;
+  // Claim due posts one at a time until none are left, so several processes share the work
+  private static async claimAndProcess(): Promise<void> {
+    let processed = 0;
+    try {
+      while (!this.stopping) {
+        const claim = await this.claimNextPost();
+        if (!claim) break;
 
-    console.log(`Processing scheduled post ${id} for user ${user.email}`);
+        // The post was deleted between the claim and the read; move on to the next due one
+        const { post } = claim;
+        if (!post) continue;
 
-    // Post to Twitter
-    if (platform === 'twitter' || platform === 'both') {
-      if (user.twitterAccessToken && user.twitterAccessSecret) {
         try {
-          const twitterService = new TwitterService(
-            user.twitterAccessToken,
-            user.twitterAccessSecret
-          );
-          const result = await twitterService.postTweet(content);
-          twitterPostId = result.id;
-          twitterSuccess = true;
-          console.log(`Successfully posted to Twitter: ${twitterPostId}`);
-        } catch (error: any) {
-          twitterError = error.message;
-          console.error(`Failed to post to Twitter:`, error);
+          await this.processPost(post);
+        } catch (error) {
+          // The claim stays until its lease expires, then the post is retried
+          console.error(`Error processing scheduled post ${post.id}:`, error);
         }
-      } else {
-        twitterError = 'Twitter not authorized';
+        processed++;
       }
-    }
 
-    // Post to LinkedIn
-    if (platform === 'linkedin' || platform === 'both') {
-      if (user.linkedinAccessToken) {
-        try {
-          // Check if token is expired
-          if (user.linkedinTokenExpiry && new Date(user.linkedinTokenExpiry) <= new Date()) {
-            throw new Error('LinkedIn token expired');
-          }
-
-          const linkedinService = new LinkedInService(user.linkedinAccessToken);
-          const result = await linkedinService.postText(content);
-          linkedinPostId = result.id;
-          linkedinSuccess = true;
-          console.log(`Successfully posted to LinkedIn: ${linkedinPostId}`);
-        } catch (error: any) {
-          linkedinError = error.message;
-          console.error(`Failed to post to LinkedIn:`, error);
-        }
-      } else {
-        linkedinError = 'LinkedIn not authorized';
+      if (processed > 0) {
+        console.log(`Processed ${processed} scheduled posts`);
       }
+    } catch (error) {
+      console.error('Error processing scheduled posts:', error);
     }
+  }
+
+  // Atomically claim the next due post: a pending one, one with a retry due, or one whose claim expired because its process died.
+  // SKIP LOCKED lets concurrent schedulers pass over a row another one is claiming instead of waiting for it.
+  // Null when nothing is due; the claim's post is null when it was deleted after being claimed.
+  private static async claimNextPost() {
+    const now = new Date();
+    const claimed = await prisma.$queryRaw<Array<{ id: string; previousStatus: string }>>`
+      UPDATE "scheduled_posts" AS post
+      SET "status" = 'processing', "claimedBy" = ${WORKER_ID}, "leaseExpiresAt" = ${new Date(now.getTime() + LEASE_MS)}, "updatedAt" = ${now}
+      FROM (
+        SELECT "id", "status" FROM "scheduled_posts"
+        WHERE ("status" = 'pending' AND "scheduledFor" <= ${now})
+           OR ("status" = 'retrying' AND "nextAttemptAt" <= ${now})
+           OR ("status" = 'processing' AND "leaseExpiresAt" < ${now})
+        ORDER BY "scheduledFor"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      ) AS due
+      WHERE post."id" = due."id"
+      RETURNING post."id", due."status" AS "previousStatus"
+    `;
+    if (claimed.length === 0) return null;
 
-    // Determine overall status
-    let status = 'failed';
-    if (platform === 'twitter' && twitterSuccess) {
-      status = 'posted';
-    } else if (platform === 'linkedin' && linkedinSuccess) {
-      status = 'posted';
-    } else if (platform === 'both' && (twitterSuccess || linkedinSuccess)) {
-      status = 'posted';
+    const { id, previousStatus } = claimed[0];
+    if (previousStatus === 'processing') {
+      console.warn(`Recovering scheduled post ${id}: its previous claim expired`);
     }
 
-    // Update the scheduled post
-    await prisma.scheduledPost.update({
+    const post = await prisma.scheduledPost.findUnique({
       where: { id },
+      include: {
+        user: true,
+        variants: true,
+      },
+    });
+    return { post };
+  }
+
+  // Extend this process's claim; false when the claim was lost to another process
+  private static async renewLease(postId: string): Promise<boolean> {
+    const { count } = await prisma.scheduledPost.updateMany({
+      where: { id: postId, claimedBy: WORKER_ID, status: 'processing' },
+      data: { leaseExpiresAt: new Date(Date.now() + LEASE_MS) },
+    });
+    return count > 0;
+  }
+
+  // Publish each pending variant of a scheduled post, and each retrying one that is due, then roll the results up onto the post
+  private static async processPost(post: any): Promise<void> {
+    const { id, user } = post;
+
+    console.log(`Processing scheduled post ${id} for user ${user.email}`);
+
+    // A variant still publishing was cut off mid-request by a dead process. It may or may not have gone out,
+    // so it fails instead of being published a second time.
+    await prisma.scheduledPostVariant.updateMany({
+      where: { scheduledPostId: id, status: 'publishing' },
       data: {
-        status,
-        twitterPostId,
-        twitterPostedAt: twitterSuccess ? new Date() : null,
-        twitterError,
-        linkedinPostId,
-        linkedinPostedAt: linkedinSuccess ? new Date() : null,
-        linkedinError,
+        status: 'failed',
+        error: 'Publishing was interrupted; check whether it was posted before posting it again',
+        errorKind: 'permanent',
       },
     });
 
+    const now = new Date();
+    const due = post.variants.filter((v: any) =>
+      v.status === 'pending' || (v.status === 'retrying' && v.nextAttemptAt && v.nextAttemptAt <= now)
+    );
+
+    for (const variant of due) {
+      // Mark it first so a crash can't lead to it being published twice. Skip it if it changed meanwhile.
+      const { count } = await prisma.scheduledPostVariant.updateMany({
+        where: { id: variant.id, status: variant.status },
+        data: { status: 'publishing' },
+      });
+      if (count === 0) continue;
+
+      const outcome = await this.publishVariant(variant, user);
+      const attempts = variant.attempts + 1;
+      await prisma.scheduledPostVariant.update({
+        where: { id: variant.id },
+        data: { ...this.withRetry(outcome, attempts), attempts },
+      });
+
+      if (!(await this.renewLease(id))) {
+        console.warn(`Lost the claim on scheduled post ${id}; leaving it to the process that took it over`);
+        return;
+      }
+    }
+
+    // Re-read the variants, in case any changed state without going through this process
+    post.variants = await prisma.scheduledPostVariant.findMany({ where: { scheduledPostId: id } });
+
+    const status = this.rollUpStatus(post.variants);
+    const { count } = await prisma.scheduledPost.updateMany({
+      where: { id, claimedBy: WORKER_ID },
+      data: { status, nextAttemptAt: this.nextAttemptAt(post.variants), claimedBy: null, leaseExpiresAt: null },
+    });
+    if (count === 0) {
+      console.warn(`Lost the claim on scheduled post ${id} before finishing it`);
+      return;
+    }
+
     // Update the generation request if it exists
     if (post.generationRequestId) {
       const updateData: any = {};
-      
-      if (twitterSuccess) {
+      const twitter = post.variants.find((v: any) => v.platform === 'twitter' && v.status === 'posted');
+      const linkedin = post.variants.find((v: any) => v.platform === 'linkedin' && v.status === 'posted');
+
+      if (twitter) {
         updateData.postedToTwitter = true;
-        updateData.twitterPostId = twitterPostId;
-        updateData.twitterPostedAt = new Date();
+        updateData.twitterPostId = twitter.postId;
+        updateData.twitterThreadIds = twitter.threadIds;
+        updateData.twitterPostedAt = twitter.postedAt;
       }
-      
-      if (linkedinSuccess) {
+
+      if (linkedin) {
         updateData.postedToLinkedIn = true;
-        updateData.linkedinPostId = linkedinPostId;
-        updateData.linkedinPostedAt = new Date();
+        updateData.linkedinPostId = linkedin.postId;
+        updateData.linkedinPostedAt = linkedin.postedAt;
       }
 
       if (Object.keys(updateData).length > 0) {
@@ -140,9 +217,116 @@ export class SchedulerService {
     console.log(`Completed processing post ${id} with status: ${status}`);
   }
 
+  // Publish one account's variant. Failures come back as the variant's error instead of being thrown.
+  private static async publishVariant(variant: any, user: any): Promise<VariantOutcome> {
+    const failed = (error: string, errorKind: PublishErrorKind, postedIds: string[] = []): VariantOutcome => ({
+      status: 'failed',
+      postId: postedIds[0] ?? null,
+      threadIds: postedIds,
+      postedAt: null,
+      error,
+      errorKind,
+    });
+
+    // Re-check at publish time; the rules may have changed since the post was scheduled
+    if (ContentValidationService.isPlatform(variant.platform)) {
+      const validation = ContentValidationService.validate(variant.platform, {
+        content: variant.content,
+        mediaCount: variant.mediaUrls.length,
+        threadSegments: variant.threadSegments,
+        contentWarning: variant.contentWarning,
+      });
+      if (!validation.valid) {
+        return failed(validation.errors.join('; '), 'content');
+      }
+    }
+
+    let media: MediaFile[] = [];
+    if (variant.mediaUrls.length > 0) {
+      try {
+        media = await MediaService.resolveMedia(user.id, variant.mediaUrls);
+      } catch (error: any) {
+        console.error(`Failed to load media for variant ${variant.id}:`, error);
+        return failed(`Failed to load media: ${error.message}`, classifyPublishError(error));
+      }
+    }
+
+    try {
+      const connector = SocialConnectorRegistry.get(variant.platform);
+      if (!connector?.publish) {
+        return failed(`Unsupported platform: ${variant.platform}`, 'permanent');
+      }
+
+      if (!variant.accountId) {
+        return failed(`${connector.name} account was disconnected; reconnect it and reschedule the post`, 'auth');
+      }
+
+      // Refreshes the token first when the platform allows it; a failed refresh means reconnecting
+      let connection;
+      try {
+        connection = await ConnectedAccountService.getCredentialsFor(user.id, connector.id, variant.accountId);
+      } catch (error: any) {
+        return failed(error.message, 'auth');
+      }
+      if (!connection) {
+        return failed(`${connector.name} account not authorized`, 'auth');
+      }
+
+      const result = await connector.publish(connection.credentials, {
+        text: variant.content,
+        media,
+        threadSegments: variant.threadSegments.length > 0 ? variant.threadSegments : undefined,
+        contentWarning: variant.contentWarning,
+        author: variant.authorUrn,
+      });
+
+      console.log(`Successfully posted to ${connector.name}: ${result.id}`);
+      return { status: 'posted', postId: result.id, threadIds: result.ids, postedAt: new Date(), error: null, errorKind: null };
+    } catch (error: any) {
+      console.error(`Failed to post to ${variant.platform}:`, error);
+      // Keep the ids of a partly posted thread so they can be found and cleaned up
+      return failed(error.message, classifyPublishError(error), error instanceof ThreadPostError ? error.postedIds : []);
+    }
+  }
+
+  // A retryable failure is retried with exponential backoff until the variant runs out of attempts
+  static withRetry(outcome: VariantOutcome, attempts: number): VariantOutcome & { nextAttemptAt: Date | null } {
+    if (outcome.status !== 'failed' || outcome.errorKind !== 'retryable' || attempts >= getMaxAttempts()) {
+      return { ...outcome, nextAttemptAt: null };
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    return { ...outcome, status: 'retrying', nextAttemptAt: new Date(Date.now() + delay) };
+  }
+
+  // When the post's earliest retrying variant is due, if any
+  static nextAttemptAt(variants: Array<{ status: string; nextAttemptAt: Date | null }>): Date | null {
+    const times = variants
+      .filter(variant => variant.status === 'retrying' && variant.nextAttemptAt)
+      .map(variant => variant.nextAttemptAt!.getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }
+
+  // A post is retrying while any variant is. Otherwise it is posted when every variant went out, partial when only
+  // some did (the rest failed or were cancelled), and cancelled only when all were cancelled.
+  static rollUpStatus(variants: Array<{ status: string }>): string {
+    if (variants.some(variant => variant.status === 'retrying')) {
+      return 'retrying';
+    }
+    if (variants.some(variant => variant.status === 'posted')) {
+      return variants.every(variant => variant.status === 'posted') ? 'posted' : 'partial';
+    }
+    if (variants.length > 0 && variants.every(variant => variant.status === 'cancelled')) {
+      return 'cancelled';
+    }
+    return 'failed';
+  }
+
   // Start the scheduler (runs every minute)
   static startScheduler(): NodeJS.Timeout {
-    console.log('Starting post scheduler...');
+    console.log(`Starting post scheduler as ${WORKER_ID}...`);
+    this.started = true;
+    this.stopping = false;
     
     // Run immediately on startup
     this.processDuePosts();
@@ -152,4 +336,11 @@ export class SchedulerService {
       this.processDuePosts();
     }, 60 * 1000); // 60 seconds
   }
+
+  // Stop claiming posts and wait for the post being published to finish, for a clean shutdown
+  static async stopScheduler(interval: NodeJS.Timeout): Promise<void> {
+    clearInterval(interval);
+    this.stopping = true;
+    await this.currentRun;
+  }
 }
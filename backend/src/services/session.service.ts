@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { UserSession } from '@prisma/client';
+import prisma from '../db';
+
+// A signed-in session as shown to its user. Session IDs never leave the server; sessions are
+// identified by a hash of the ID instead.
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// First match wins, so browsers that also claim to be Chrome or Safari come first
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+export class SessionService {
+  static publicId(sid: string): string {
+    return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+  }
+
+  // "Chrome on macOS" from a user agent string
+  static describeDevice(userAgent: string | null): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || 'Unknown device';
+  }
+
+  // The user's unexpired sessions, this one first, then most recently used
+  static async list(userId: string, currentSid: string): Promise<SessionSummary[]> {
+    const sessions = await this.findForUser(userId);
+
+    return sessions
+      .map(session => this.toSummary(session, currentSid))
+      .sort((a, b) => {
+        if (a.current !== b.current) return a.current ? -1 : 1;
+        return (b.lastSeenAt || '').localeCompare(a.lastSeenAt || '');
+      });
+  }
+
+  // Sign one of the user's other sessions out; returns false when there is no such session
+  static async revoke(userId: string, id: string, currentSid: string): Promise<boolean> {
+    const sessions = await this.findForUser(userId);
+    const session = sessions.find(s => this.publicId(s.sid) === id && s.sid !== currentSid);
+    if (!session) return false;
+
+    await prisma.userSession.deleteMany({ where: { sid: session.sid } });
+    return true;
+  }
+
+  // Sign out everywhere except the current session; returns how many sessions ended
+  static async revokeOthers(userId: string, currentSid: string): Promise<number> {
+    const { count } = await prisma.userSession.deleteMany({
+      where: {
+        sid: { not: currentSid },
+        sess: { path: ['passport', 'user'], equals: userId },
+      },
+    });
+    return count;
+  }
+
+  // Passport stores the signed-in user's id at sess.passport.user
+  private static findForUser(userId: string): Promise<UserSession[]> {
+    return prisma.userSession.findMany({
+      where: {
+        expire: { gt: new Date() },
+        sess: { path: ['passport', 'user'], equals: userId },
+      },
+    });
+  }
+
+  private static toSummary(session: UserSession, currentSid: string): SessionSummary {
+    const data = (session.sess || {}) as Record<string, any>;
+    const userAgent = data.userAgent || null;
+
+    return {
+      id: this.publicId(session.sid),
+      device: this.describeDevice(userAgent),
+      userAgent,
+      ip: data.ip || null,
+      createdAt: data.createdAt || null,
+      lastSeenAt: data.lastSeenAt || null,
+      expiresAt: session.expire,
+      current: session.sid === currentSid,
+    };
+  }
+}
@@ -0,0 +1,274 @@
+import { ConnectedAccount } from '@prisma/client';
+import prisma from '../../db';
+import { SocialConnectorRegistry } from './registry';
+import { isRefreshRejected } from './publish-errors';
+import { AccountCredentials, ConnectResult, SocialPlatformId } from './types';
+
+// Refresh a little early so a token doesn't expire between the check and the API call
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// How long a refresh may hold the account's row lock, including the call to the platform
+const REFRESH_TIMEOUT_MS = 30 * 1000;
+
+// One connected account, without its tokens
+export interface AccountSummary {
+  id: string;
+  platform: SocialPlatformId;
+  nickname: string | null;
+  username: string | null;
+  displayName: string | null;
+  userId: string; // The account's id on the platform
+  instanceUrl: string | null;
+  tokenExpiresAt: Date | null;
+  tokenStatus: string; // 'ok', 'expiring' or 'expired'
+  tokenError: string | null;
+  reconnectBy: Date | null; // When posting stops working unless the user reconnects; null when never
+}
+
+export interface AccountStatus {
+  platform: SocialPlatformId;
+  name: string;
+  configured: boolean; // The connector's environment is set up
+  canPublish: boolean;
+  isConnected: boolean;
+  // The default account's details, for clients that handle one account per platform
+  username: string | null;
+  displayName: string | null;
+  userId: string | null;
+  instanceUrl: string | null;
+  tokenExpiresAt: Date | null;
+  accounts: AccountSummary[];
+}
+
+export class ConnectedAccountService {
+  // A user's accounts on a platform, oldest first; the first one is the default
+  static async listForPlatform(userId: string, platform: SocialPlatformId): Promise<ConnectedAccount[]> {
+    return prisma.connectedAccount.findMany({
+      where: { userId, platform },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  static async getById(userId: string, accountId: string): Promise<ConnectedAccount | null> {
+    return prisma.connectedAccount.findFirst({ where: { id: accountId, userId } });
+  }
+
+  // The given account, or the platform's default account when no id is given
+  static async find(userId: string, platform: SocialPlatformId, accountId?: string | null): Promise<ConnectedAccount | null> {
+    if (accountId) {
+      return prisma.connectedAccount.findFirst({ where: { id: accountId, userId, platform } });
+    }
+    return prisma.connectedAccount.findFirst({
+      where: { userId, platform },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Status of every registered connector for a user, connected or not
+  static async listStatuses(userId: string): Promise<AccountStatus[]> {
+    const accounts = await prisma.connectedAccount.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return SocialConnectorRegistry.list().map(connector =>
+      this.toStatus(connector.id, accounts.filter(account => account.platform === connector.id))
+    );
+  }
+
+  static toStatus(platform: SocialPlatformId, accounts: ConnectedAccount[]): AccountStatus {
+    const connector = SocialConnectorRegistry.get(platform);
+    const first = accounts[0];
+    return {
+      platform,
+      name: connector?.name || platform,
+      configured: connector ? SocialConnectorRegistry.getMissingEnv(connector).length === 0 : false,
+      canPublish: !!connector?.publish,
+      isConnected: accounts.length > 0,
+      username: first?.username || null,
+      displayName: first?.displayName || null,
+      userId: first?.externalId || null,
+      instanceUrl: first?.instanceUrl || null,
+      tokenExpiresAt: first?.tokenExpiresAt || null,
+      accounts: accounts.map(account => this.toSummary(account)),
+    };
+  }
+
+  static toSummary(account: ConnectedAccount): AccountSummary {
+    return {
+      id: account.id,
+      platform: account.platform,
+      nickname: account.nickname,
+      username: account.username,
+      displayName: account.displayName,
+      userId: account.externalId,
+      instanceUrl: account.instanceUrl,
+      tokenExpiresAt: account.tokenExpiresAt,
+      tokenStatus: account.tokenStatus,
+      tokenError: account.tokenError,
+      reconnectBy: this.reconnectBy(account),
+    };
+  }
+
+  // The access token's expiry, or the refresh token's when the platform can refresh
+  static reconnectBy(account: ConnectedAccount): Date | null {
+    if (!account.tokenExpiresAt) return null;
+
+    const connector = SocialConnectorRegistry.get(account.platform);
+    if (!connector?.refresh || !account.refreshToken) {
+      return account.tokenExpiresAt;
+    }
+    if (!account.refreshTokenExpiresAt) return null;
+
+    return account.refreshTokenExpiresAt > account.tokenExpiresAt ? account.refreshTokenExpiresAt : account.tokenExpiresAt;
+  }
+
+  // Name to show for an account: its nickname, else its handle
+  static label(account: ConnectedAccount): string {
+    return account.nickname || account.username || account.displayName || account.externalId;
+  }
+
+  // Store the result of a finished sign-in. Signing in as an identity that is already connected
+  // replaces its tokens and keeps its nickname; any other identity is added as another account.
+  static async save(userId: string, platform: SocialPlatformId, result: ConnectResult): Promise<ConnectedAccount> {
+    const data = {
+      username: result.profile.username ?? null,
+      displayName: result.profile.displayName ?? null,
+      instanceUrl: result.credentials.instanceUrl ?? null,
+      accessToken: result.credentials.accessToken,
+      accessSecret: result.credentials.accessSecret ?? null,
+      refreshToken: result.credentials.refreshToken ?? null,
+      tokenExpiresAt: result.credentials.tokenExpiresAt ?? null,
+      refreshTokenExpiresAt: result.credentials.refreshTokenExpiresAt ?? null,
+      // Signing in again fixes whatever was wrong with the old tokens
+      tokenStatus: 'ok',
+      tokenError: null,
+    };
+    const externalId = result.profile.externalId;
+
+    return prisma.connectedAccount.upsert({
+      where: { userId_platform_externalId: { userId, platform, externalId } },
+      create: { userId, platform, externalId, ...data },
+      update: data,
+    });
+  }
+
+  static async rename(userId: string, accountId: string, nickname: string | null): Promise<ConnectedAccount | null> {
+    const account = await this.getById(userId, accountId);
+    if (!account) return null;
+
+    return prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: { nickname: nickname?.trim() || null },
+    });
+  }
+
+  // Credentials ready to use, refreshed first when they are about to expire and the platform allows it
+  static async getCredentials(account: ConnectedAccount): Promise<AccountCredentials> {
+    const expiresSoon = account.tokenExpiresAt && account.tokenExpiresAt.getTime() - Date.now() < REFRESH_MARGIN_MS;
+    if (!expiresSoon) {
+      return this.toCredentials(account);
+    }
+
+    return this.refresh(account);
+  }
+
+  // Swap the refresh token for new tokens. Refreshes of one account are serialised with a row lock, since Bluesky and
+  // Canva rotate the refresh token on every use: a second process refreshing with the old one would be refused.
+  // Only a refused refresh marks the account as needing to be reconnected; an outage or timeout leaves it as it was.
+  static async refresh(account: ConnectedAccount): Promise<AccountCredentials> {
+    const connector = SocialConnectorRegistry.get(account.platform);
+    const name = connector?.name || account.platform;
+
+    if (!connector?.refresh || !account.refreshToken) {
+      const error = new Error(`${name} token expired. Please reconnect the account.`);
+      await this.markExpired(account.id, error.message);
+      throw error;
+    }
+    const refresh = connector.refresh.bind(connector);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Waits here while another process refreshes this account
+        await tx.$queryRaw`SELECT "id" FROM "connected_accounts" WHERE "id" = ${account.id} FOR UPDATE`;
+        const current = await tx.connectedAccount.findUnique({ where: { id: account.id } });
+        if (!current) {
+          throw new Error(`${name} account is no longer connected`);
+        }
+
+        // Someone else refreshed while this one waited: use their tokens rather than spending the old refresh token
+        if (current.accessToken !== account.accessToken) {
+          return this.toCredentials(current);
+        }
+
+        console.log(`Refreshing ${account.platform} token for account ${account.id}`);
+        const refreshed = await refresh(this.toCredentials(current));
+        await tx.connectedAccount.update({
+          where: { id: current.id },
+          data: {
+            accessToken: refreshed.accessToken,
+            accessSecret: refreshed.accessSecret ?? current.accessSecret,
+            refreshToken: refreshed.refreshToken ?? current.refreshToken,
+            tokenExpiresAt: refreshed.tokenExpiresAt ?? null,
+            refreshTokenExpiresAt: refreshed.refreshTokenExpiresAt ?? current.refreshTokenExpiresAt,
+            tokenStatus: 'ok',
+            tokenError: null,
+          },
+        });
+
+        return { ...refreshed, instanceUrl: current.instanceUrl };
+      }, { timeout: REFRESH_TIMEOUT_MS });
+    } catch (error: any) {
+      if (isRefreshRejected(error)) {
+        await this.markExpired(account.id, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private static async markExpired(accountId: string, tokenError: string): Promise<void> {
+    await prisma.connectedAccount.update({
+      where: { id: accountId },
+      data: { tokenStatus: 'expired', tokenError, tokenCheckedAt: new Date() },
+    });
+  }
+
+  private static toCredentials(account: ConnectedAccount): AccountCredentials {
+    return {
+      accessToken: account.accessToken,
+      accessSecret: account.accessSecret,
+      refreshToken: account.refreshToken,
+      tokenExpiresAt: account.tokenExpiresAt,
+      refreshTokenExpiresAt: account.refreshTokenExpiresAt,
+      instanceUrl: account.instanceUrl,
+    };
+  }
+
+  // Credentials for one of the user's accounts (the platform's default when no id is given),
+  // or null when it isn't connected
+  static async getCredentialsFor(userId: string, platform: SocialPlatformId, accountId?: string | null): Promise<{
+    account: ConnectedAccount;
+    credentials: AccountCredentials;
+  } | null> {
+    const account = await this.find(userId, platform, accountId);
+    if (!account) return null;
+    return { account, credentials: await this.getCredentials(account) };
+  }
+
+  // Remove the connection; revoking on the platform is best effort
+  static async disconnect(userId: string, accountId: string): Promise<boolean> {
+    const account = await this.getById(userId, accountId);
+    if (!account) return false;
+
+    const connector = SocialConnectorRegistry.get(account.platform);
+    if (connector?.disconnect) {
+      try {
+        await connector.disconnect(this.toCredentials(account));
+      } catch (error: any) {
+        console.error(`Failed to revoke ${account.platform} token:`, error.response?.data || error.message);
+      }
+    }
+
+    await prisma.connectedAccount.delete({ where: { id: account.id } });
+    return true;
+  }
+}
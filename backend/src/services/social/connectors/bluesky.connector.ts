@@ -0,0 +1,70 @@
+import { BlueskyService, BlueskySession, decodeJwt, DEFAULT_BLUESKY_SERVICE } from '../../bluesky.service';
+import { AccountCredentials, SocialConnector } from '../types';
+import { assertPublicServiceUrl } from '../../../utils/public-host';
+
+// Only the session JWTs are stored: the access JWT as the access token, the refresh JWT as the refresh token
+function toCredentials(session: BlueskySession): AccountCredentials {
+  const exp = decodeJwt(session.accessJwt).exp;
+  const refreshExp = decodeJwt(session.refreshJwt).exp;
+  return {
+    accessToken: session.accessJwt,
+    refreshToken: session.refreshJwt,
+    tokenExpiresAt: exp ? new Date(exp * 1000) : null,
+    refreshTokenExpiresAt: refreshExp ? new Date(refreshExp * 1000) : null,
+    instanceUrl: session.service,
+  };
+}
+
+// Signs in with an app password (Settings → Privacy and security → App passwords) instead of OAuth
+export const blueskyConnector: SocialConnector = {
+  id: 'bluesky',
+  name: 'Bluesky',
+  requiredEnv: [],
+
+  async login(params) {
+    const { identifier, appPassword, service } = params;
+    if (typeof identifier !== 'string' || !identifier.trim() || typeof appPassword !== 'string' || !appPassword) {
+      throw new Error('Bluesky handle and app password are required');
+    }
+
+    const entryway = typeof service === 'string' && service.trim() ? service.trim().replace(/\/+$/, '') : DEFAULT_BLUESKY_SERVICE;
+    await assertPublicServiceUrl(entryway, 'Bluesky server');
+    const session = await BlueskyService.createSession(entryway, identifier.trim().replace(/^@/, ''), appPassword);
+    // The PDS is named in the server's answer, so it gets the same check as the entryway the user typed
+    await assertPublicServiceUrl(session.service, 'Bluesky PDS');
+    const profile = await new BlueskyService(session.service, session.accessJwt).getProfile();
+
+    return {
+      credentials: toCredentials(session),
+      profile: { externalId: session.did, username: session.handle, displayName: profile.displayName },
+    };
+  },
+
+  async refresh(credentials) {
+    const session = await BlueskyService.refreshSession(credentials.instanceUrl!, credentials.refreshToken!);
+    await assertPublicServiceUrl(session.service, 'Bluesky PDS');
+    return toCredentials(session);
+  },
+
+  async publish(credentials, { text, media, threadSegments }) {
+    const blueskyService = new BlueskyService(credentials.instanceUrl!, credentials.accessToken);
+
+    if (threadSegments && threadSegments.length > 0) {
+      const { uris, url } = await blueskyService.postThread(threadSegments, media);
+      return { id: uris[0], ids: uris, url };
+    }
+
+    const post = await blueskyService.createPost(text, media);
+    return { id: post.uri, ids: [post.uri], url: post.url };
+  },
+
+  async fetchMetrics(credentials, postId) {
+    return new BlueskyService(credentials.instanceUrl!, credentials.accessToken).getPostMetrics(postId);
+  },
+
+  async disconnect(credentials) {
+    if (credentials.refreshToken) {
+      await BlueskyService.deleteSession(credentials.instanceUrl!, credentials.refreshToken);
+    }
+  },
+};
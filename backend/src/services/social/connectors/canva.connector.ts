@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { CanvaService } from '../../canva.service';
+import { SocialConnector } from '../types';
+
+// Canva is used for designs, not publishing, so it has no publish or metrics
+export const canvaConnector: SocialConnector = {
+  id: 'canva',
+  name: 'Canva',
+  requiredEnv: ['CANVA_CLIENT_ID', 'CANVA_CLIENT_SECRET'],
+
+  async connect(callbackUrl) {
+    const { codeVerifier, codeChallenge } = CanvaService.generatePKCE();
+    const state = crypto.randomBytes(16).toString('hex');
+    return {
+      authUrl: CanvaService.generateAuthUrl(callbackUrl, state, codeChallenge),
+      state,
+      stateData: { codeVerifier },
+    };
+  },
+
+  async callback(query, stateData, callbackUrl) {
+    if (!query.code) {
+      throw new Error('Missing OAuth parameters from Canva');
+    }
+
+    const { accessToken, refreshToken, expiresIn } = await CanvaService.getAccessToken(
+      query.code as string,
+      stateData.codeVerifier,
+      callbackUrl
+    );
+    const profile = await new CanvaService(accessToken).getProfile();
+
+    return {
+      credentials: {
+        accessToken,
+        refreshToken,
+        tokenExpiresAt: new Date(Date.now() + expiresIn * 1000),
+      },
+      profile: { externalId: profile.id, displayName: profile.displayName },
+    };
+  },
+
+  async refresh(credentials) {
+    const refreshed = await CanvaService.refreshAccessToken(credentials.refreshToken!);
+    return {
+      accessToken: refreshed.accessToken,
+      refreshToken: refreshed.refreshToken,
+      tokenExpiresAt: new Date(Date.now() + refreshed.expiresIn * 1000),
+    };
+  },
+
+  async disconnect(credentials) {
+    await CanvaService.revokeToken(credentials.refreshToken || credentials.accessToken);
+  },
+};
@@ -0,0 +1,15 @@
+import { SocialConnector } from '../types';
+import { twitterConnector } from './twitter.connector';
+import { linkedinConnector } from './linkedin.connector';
+import { canvaConnector } from './canva.connector';
+import { mastodonConnector } from './mastodon.connector';
+import { blueskyConnector } from './bluesky.connector';
+
+// Built-in connectors. To add a network, write a connector module next to these and list it here.
+export const builtInConnectors: SocialConnector[] = [
+  twitterConnector,
+  linkedinConnector,
+  canvaConnector,
+  mastodonConnector,
+  blueskyConnector,
+];
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { LinkedInService, LinkedInTokens } from '../../linkedin.service';
+import { AccountCredentials, SocialConnector } from '../types';
+
+// LINKEDIN_REDIRECT_URI overrides the default callback, e.g. when the app is registered with another host
+const getRedirectUri = (callbackUrl: string) => process.env.LINKEDIN_REDIRECT_URI || callbackUrl;
+
+const secondsFromNow = (seconds?: number) => (seconds ? new Date(Date.now() + seconds * 1000) : null);
+
+function toCredentials(tokens: LinkedInTokens): AccountCredentials {
+  return {
+    accessToken: tokens.accessToken,
+    tokenExpiresAt: secondsFromNow(tokens.expiresIn),
+    refreshToken: tokens.refreshToken ?? null,
+    refreshTokenExpiresAt: secondsFromNow(tokens.refreshTokenExpiresIn),
+  };
+}
+
+export const linkedinConnector: SocialConnector = {
+  id: 'linkedin',
+  name: 'LinkedIn',
+  requiredEnv: ['LINKEDIN_CLIENT_ID', 'LINKEDIN_CLIENT_SECRET'],
+
+  async connect(callbackUrl) {
+    const state = crypto.randomBytes(16).toString('hex');
+    return {
+      authUrl: LinkedInService.generateAuthUrl(getRedirectUri(callbackUrl), state),
+      state,
+    };
+  },
+
+  async callback(query, _stateData, callbackUrl) {
+    if (!query.code) {
+      throw new Error('Missing OAuth parameters from LinkedIn');
+    }
+
+    const tokens = await LinkedInService.getAccessToken(query.code as string, getRedirectUri(callbackUrl));
+    const profile = await new LinkedInService(tokens.accessToken).getProfile();
+
+    return {
+      credentials: toCredentials(tokens),
+      profile: { externalId: profile.id, username: profile.name, displayName: profile.name },
+    };
+  },
+
+  // Only called when LinkedIn issued a refresh token, i.e. the app is approved for programmatic refresh
+  async refresh(credentials) {
+    return toCredentials(await LinkedInService.refreshAccessToken(credentials.refreshToken!));
+  },
+
+  // The member's own profile, then the company pages they administer
+  async listAuthors(credentials) {
+    const linkedinService = new LinkedInService(credentials.accessToken);
+    const profile = await linkedinService.getProfile();
+    const organizations = LinkedInService.organizationPostingEnabled()
+      ? await linkedinService.getAdministeredOrganizations()
+      : [];
+
+    return [
+      { id: `urn:li:person:${profile.id}`, name: profile.name, type: 'person' as const },
+      ...organizations.map(organization => ({ id: organization.urn, name: organization.name, type: 'organization' as const })),
+    ];
+  },
+
+  async publish(credentials, { text, media, author }) {
+    const linkedinService = new LinkedInService(credentials.accessToken);
+    const post = media.length > 0
+      ? await linkedinService.postWithMedia(text, media, author)
+      : await linkedinService.postText(text, author);
+    return { id: post.id, ids: [post.id], url: post.url, author: post.author };
+  },
+
+  async fetchMetrics(credentials, postId) {
+    return new LinkedInService(credentials.accessToken).getPostMetrics(postId);
+  },
+
+  async disconnect(credentials) {
+    await LinkedInService.revokeToken(credentials.accessToken);
+  },
+};
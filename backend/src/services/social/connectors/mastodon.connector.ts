@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { MastodonApp } from '@prisma/client';
+import prisma from '../../../db';
+import { MastodonService } from '../../mastodon.service';
+import { SocialConnector } from '../types';
+
+// Apps are registered on first use and reused for every later connection to the same instance
+async function getOrRegisterApp(instanceUrl: string, redirectUri: string): Promise<MastodonApp> {
+  const existing = await prisma.mastodonApp.findUnique({
+    where: { instanceUrl_redirectUri: { instanceUrl, redirectUri } },
+  });
+  if (existing) return existing;
+
+  const { clientId, clientSecret } = await MastodonService.registerApp(instanceUrl, redirectUri);
+  return prisma.mastodonApp.create({
+    data: { instanceUrl, redirectUri, clientId, clientSecret },
+  });
+}
+
+// Works with any instance, chosen by the user when connecting: /mastodon/connect?instance=mastodon.social
+export const mastodonConnector: SocialConnector = {
+  id: 'mastodon',
+  name: 'Mastodon',
+  requiredEnv: [],
+
+  async connect(callbackUrl, params) {
+    if (typeof params.instance !== 'string' || !params.instance.trim()) {
+      throw new Error('Enter your Mastodon instance, e.g. mastodon.social');
+    }
+
+    const instanceUrl = await MastodonService.normalizeInstanceUrl(params.instance);
+    const app = await getOrRegisterApp(instanceUrl, callbackUrl);
+    const state = crypto.randomBytes(16).toString('hex');
+
+    return {
+      authUrl: MastodonService.generateAuthUrl(instanceUrl, app.clientId, callbackUrl, state),
+      state,
+      stateData: { instanceUrl },
+    };
+  },
+
+  async callback(query, stateData, callbackUrl) {
+    if (!query.code) {
+      throw new Error('Missing OAuth parameters from Mastodon');
+    }
+
+    const { instanceUrl } = stateData;
+    const app = await getOrRegisterApp(instanceUrl, callbackUrl);
+    const accessToken = await MastodonService.getAccessToken(instanceUrl, app, query.code as string, callbackUrl);
+    const profile = await new MastodonService(instanceUrl, accessToken).getProfile();
+
+    return {
+      credentials: { accessToken, instanceUrl },
+      profile: {
+        externalId: profile.id,
+        username: `${profile.username}@${new URL(instanceUrl).host}`,
+        displayName: profile.displayName,
+      },
+    };
+  },
+
+  async publish(credentials, { text, media, contentWarning }) {
+    const mastodonService = new MastodonService(credentials.instanceUrl!, credentials.accessToken);
+    const status = await mastodonService.postStatus(text, { media, contentWarning });
+    return { id: status.id, ids: [status.id], url: status.url };
+  },
+
+  async fetchMetrics(credentials, postId) {
+    return new MastodonService(credentials.instanceUrl!, credentials.accessToken).getStatusMetrics(postId);
+  },
+
+  async disconnect(credentials) {
+    const app = await prisma.mastodonApp.findFirst({ where: { instanceUrl: credentials.instanceUrl! } });
+    if (app) {
+      await MastodonService.revokeToken(credentials.instanceUrl!, app, credentials.accessToken);
+    }
+  },
+};
@@ -0,0 +1,57 @@
+import { TwitterService } from '../../twitter.service';
+import { SocialConnector } from '../types';
+
+// OAuth 1.0a: tokens don't expire, so there is no refresh
+export const twitterConnector: SocialConnector = {
+  id: 'twitter',
+  name: 'Twitter',
+  requiredEnv: ['TWITTER_API_KEY', 'TWITTER_API_SECRET'],
+  stateParam: 'oauth_token',
+
+  // ?addAccount=true makes Twitter ask for a login, so a different account than the signed-in one can be added
+  async connect(callbackUrl, params) {
+    const authLink = await TwitterService.generateAuthUrl(callbackUrl, params.addAccount === 'true');
+    return {
+      authUrl: authLink.url,
+      state: authLink.oauth_token,
+      stateData: { oauthTokenSecret: authLink.oauth_token_secret },
+    };
+  },
+
+  async callback(query, stateData) {
+    const { oauth_token, oauth_verifier } = query;
+    if (!oauth_token || !oauth_verifier) {
+      throw new Error('Missing OAuth parameters');
+    }
+
+    const { accessToken, accessSecret, userId, screenName } = await TwitterService.getAccessToken(
+      oauth_token as string,
+      oauth_verifier as string,
+      stateData.oauthTokenSecret
+    );
+
+    return {
+      credentials: { accessToken, accessSecret },
+      profile: { externalId: userId, username: screenName },
+    };
+  },
+
+  async publish(credentials, { text, media, threadSegments }) {
+    const twitterService = new TwitterService(credentials.accessToken, credentials.accessSecret!);
+
+    if (threadSegments && threadSegments.length > 0) {
+      const { ids } = await twitterService.postThread(threadSegments, media);
+      return { id: ids[0], ids };
+    }
+
+    const tweet = media.length > 0
+      ? await twitterService.postTweetWithMedia(text, media)
+      : await twitterService.postTweet(text);
+    return { id: tweet.id, ids: [tweet.id] };
+  },
+
+  async fetchMetrics(credentials, postId) {
+    const twitterService = new TwitterService(credentials.accessToken, credentials.accessSecret!);
+    return twitterService.getTweetMetrics(postId);
+  },
+};
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import prisma from '../../db';
+
+// How long the user has to finish authorizing on the platform
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface PendingOAuthFlow {
+  userId: string;
+  platform: string;
+  data: Record<string, string>;
+}
+
+export class OAuthStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthStateError';
+  }
+}
+
+// Session IDs are only stored hashed, so a leaked row can't be used to hijack the session
+function hashSession(sessionId: string): string {
+  return crypto.createHash('sha256').update(sessionId).digest('hex');
+}
+
+// OAuth handshake state lives in the database so any instance can finish a flow another one started
+export class OAuthStateService {
+  // Remember who started the flow, from which session, until the callback comes back with the state
+  static async create(state: string, flow: PendingOAuthFlow & { sessionId: string }): Promise<void> {
+    await this.purgeExpired();
+
+    await prisma.oAuthState.create({
+      data: {
+        state,
+        platform: flow.platform,
+        userId: flow.userId,
+        sessionHash: hashSession(flow.sessionId),
+        data: flow.data,
+        expiresAt: new Date(Date.now() + STATE_TTL_MS),
+      },
+    });
+  }
+
+  // Each state can be used once: deleting it is the claim, so a replayed or concurrent callback finds nothing.
+  // Only the session that started the flow can claim it; a callback from any other session leaves it in place.
+  static async consume(state: unknown, platform: string, sessionId: string): Promise<PendingOAuthFlow> {
+    if (typeof state !== 'string' || !state) {
+      throw new OAuthStateError('Missing OAuth state');
+    }
+
+    const sessionHash = hashSession(sessionId);
+    const stored = await prisma.oAuthState.findUnique({ where: { state } });
+    if (!stored) {
+      throw new OAuthStateError('Unknown or already used OAuth state');
+    }
+
+    // The callback must come from the browser session that started the flow
+    if (stored.sessionHash !== sessionHash) {
+      throw new OAuthStateError('OAuth state was issued to a different session');
+    }
+
+    if (stored.platform !== platform) {
+      throw new OAuthStateError('OAuth state belongs to a different platform');
+    }
+
+    const { count } = await prisma.oAuthState.deleteMany({ where: { id: stored.id, sessionHash } });
+    if (count === 0) {
+      throw new OAuthStateError('Unknown or already used OAuth state');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw new OAuthStateError('OAuth state expired; please connect again');
+    }
+
+    return {
+      userId: stored.userId,
+      platform: stored.platform,
+      data: stored.data as Record<string, string>,
+    };
+  }
+
+  // Drop a state without using it, e.g. when the user denied access on the platform. Only the session that
+  // started the flow can, so a request carrying someone else's state can't cancel their handshake.
+  static async discard(state: unknown, sessionId: string): Promise<void> {
+    if (typeof state !== 'string' || !state) return;
+    await prisma.oAuthState.deleteMany({ where: { state, sessionHash: hashSession(sessionId) } });
+  }
+
+  static async purgeExpired(): Promise<number> {
+    const { count } = await prisma.oAuthState.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,64 @@
+import { ThreadPostError } from '../twitter.service';
+
+// Why a publish failed, which decides whether the scheduler tries again:
+// - retryable: the platform or network had a passing problem (5xx, rate limit, timeout)
+// - auth: the account's authorization was rejected; retrying won't help until it is reconnected
+// - content: the platform rejected the post itself; it has to be changed first
+// - permanent: anything else, including threads that stopped part way, which can't be resent without duplicates
+export type PublishErrorKind = 'retryable' | 'auth' | 'content' | 'permanent';
+
+// Network failures worth another try
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE'];
+
+// A platform API failure with a readable message, keeping the HTTP status of the underlying error for classification
+export class PlatformApiError extends Error {
+  status: number | null;
+  networkCode: string | null;
+
+  constructor(message: string, cause: any) {
+    super(message);
+    this.name = 'PlatformApiError';
+    this.status = httpStatusOf(cause);
+    this.networkCode = networkCodeOf(cause);
+  }
+}
+
+// axios errors carry response.status; twitter-api-v2 response errors carry the status as a numeric code
+function httpStatusOf(error: any): number | null {
+  if (error instanceof PlatformApiError) return error.status;
+  const status = error?.response?.status ?? (typeof error?.code === 'number' ? error.code : error?.status);
+  return typeof status === 'number' ? status : null;
+}
+
+function networkCodeOf(error: any): string | null {
+  if (error instanceof PlatformApiError) return error.networkCode;
+  const code = typeof error?.code === 'string' ? error.code : error?.requestError?.code ?? error?.cause?.code;
+  return typeof code === 'string' ? code : null;
+}
+
+// A token refresh the platform refused (invalid_grant is a 400, revoked tokens a 401 or 403), as opposed to an
+// outage or timeout that may pass. Only a refused refresh means the account has to be reconnected.
+export function isRefreshRejected(error: any): boolean {
+  const status = httpStatusOf(error);
+  return status === 400 || status === 401 || status === 403;
+}
+
+export function classifyPublishError(error: any): PublishErrorKind {
+  if (error instanceof ThreadPostError) {
+    return error.postedIds.length > 0 ? 'permanent' : classifyPublishError(error.cause);
+  }
+
+  const networkCode = networkCodeOf(error);
+  if (networkCode && RETRYABLE_NETWORK_CODES.includes(networkCode)) {
+    return 'retryable';
+  }
+
+  const status = httpStatusOf(error);
+  if (status === null) return 'permanent';
+  if (status === 408 || status === 425 || status === 429 || status >= 500) return 'retryable';
+  // Twitter answers a duplicate tweet with 403
+  if (status === 403 && /duplicate/i.test(error?.message || '')) return 'content';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 || status === 413 || status === 422) return 'content';
+  return 'permanent';
+}
@@ -0,0 +1,37 @@
+import { builtInConnectors } from './connectors';
+import { SocialConnector, SocialPlatformId } from './types';
+
+export class SocialConnectorRegistry {
+  private static connectors: Map<SocialPlatformId, SocialConnector> = new Map(
+    builtInConnectors.map(connector => [connector.id, connector])
+  );
+
+  static register(connector: SocialConnector): void {
+    this.connectors.set(connector.id, connector);
+  }
+
+  static get(id: SocialPlatformId): SocialConnector | undefined {
+    return this.connectors.get(id);
+  }
+
+  static has(id: SocialPlatformId): boolean {
+    return this.connectors.has(id);
+  }
+
+  static list(): SocialConnector[] {
+    return Array.from(this.connectors.values());
+  }
+
+  static ids(): SocialPlatformId[] {
+    return Array.from(this.connectors.keys());
+  }
+
+  static getMissingEnv(connector: SocialConnector): string[] {
+    return connector.requiredEnv.filter(key => !process.env[key]);
+  }
+
+  // Connectors that can publish posts, e.g. for scheduling
+  static listPublishers(): SocialConnector[] {
+    return this.list().filter(connector => !!connector.publish);
+  }
+}
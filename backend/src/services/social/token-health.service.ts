@@ -0,0 +1,128 @@
+import { ConnectedAccount } from '@prisma/client';
+import prisma from '../../db';
+import { AccountSummary, ConnectedAccountService } from './account.service';
+
+// Warn this long before an account stops being able to post
+const WARNING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// A pending scheduled post that will fail unless the user reconnects an account first
+export interface AtRiskVariant {
+  scheduledPostId: string;
+  variantId: string;
+  platform: string;
+  scheduledFor: Date;
+  accountId: string | null;
+  account: string | null;
+  reconnectBy: Date | null;
+  reason: string;
+}
+
+export interface TokenHealth {
+  accounts: AccountSummary[]; // Accounts that need reconnecting, now or soon
+  atRisk: AtRiskVariant[];
+}
+
+export class TokenHealthService {
+  // Recompute every expiring account's token status, including whether its pending posts will outlive it
+  static async checkAll(): Promise<void> {
+    try {
+      const accounts = await prisma.connectedAccount.findMany({
+        where: { tokenExpiresAt: { not: null } },
+      });
+      const atRisk = await this.findAtRisk({});
+
+      let needsReconnect = 0;
+      for (const account of accounts) {
+        const hasAtRiskPosts = atRisk.some(variant => variant.accountId === account.id);
+        const tokenStatus = this.statusFor(account, hasAtRiskPosts);
+        if (tokenStatus !== 'ok') needsReconnect++;
+
+        await prisma.connectedAccount.update({
+          where: { id: account.id },
+          data: {
+            tokenStatus,
+            tokenCheckedAt: new Date(),
+            ...(tokenStatus === 'ok' ? { tokenError: null } : {}),
+          },
+        });
+      }
+
+      console.log(`Token check: ${needsReconnect} of ${accounts.length} accounts need reconnecting, ${atRisk.length} scheduled posts at risk`);
+    } catch (error) {
+      console.error('Error checking account tokens:', error);
+    }
+  }
+
+  // 'expired' once the account can't post, 'expiring' within the warning window or when a pending post is due after that
+  static statusFor(account: ConnectedAccount, hasAtRiskPosts = false): string {
+    if (account.tokenStatus === 'expired' && account.tokenError) {
+      return 'expired'; // A refresh already failed; only reconnecting clears this
+    }
+
+    const reconnectBy = ConnectedAccountService.reconnectBy(account);
+    if (!reconnectBy) return 'ok';
+
+    const remaining = reconnectBy.getTime() - Date.now();
+    if (remaining <= 0) return 'expired';
+    if (remaining < WARNING_WINDOW_MS || hasAtRiskPosts) return 'expiring';
+    return 'ok';
+  }
+
+  // What the user needs to know to keep their scheduled posts going
+  static async getHealth(userId: string): Promise<TokenHealth> {
+    const accounts = await prisma.connectedAccount.findMany({
+      where: { userId, tokenStatus: { not: 'ok' } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      accounts: accounts.map(account => ConnectedAccountService.toSummary(account)),
+      atRisk: await this.findAtRisk({ userId }),
+    };
+  }
+
+  // Pending or retrying variants whose account is gone, or can't post anymore by the time they are due
+  private static async findAtRisk(where: { userId?: string }): Promise<AtRiskVariant[]> {
+    const variants = await prisma.scheduledPostVariant.findMany({
+      where: { status: { in: ['pending', 'retrying'] }, scheduledPost: { ...where, status: { in: ['pending', 'retrying'] } } },
+      include: { account: true, scheduledPost: { select: { scheduledFor: true } } },
+    });
+
+    const atRisk: AtRiskVariant[] = [];
+    for (const variant of variants) {
+      const { scheduledFor } = variant.scheduledPost;
+      const base = { scheduledPostId: variant.scheduledPostId, variantId: variant.id, platform: variant.platform, scheduledFor };
+
+      if (!variant.account) {
+        atRisk.push({ ...base, accountId: null, account: null, reconnectBy: null, reason: 'The account was disconnected' });
+        continue;
+      }
+
+      const reconnectBy = ConnectedAccountService.reconnectBy(variant.account);
+      const expired = variant.account.tokenStatus === 'expired' && !!variant.account.tokenError;
+      if (expired || (reconnectBy && reconnectBy < scheduledFor)) {
+        atRisk.push({
+          ...base,
+          accountId: variant.account.id,
+          account: ConnectedAccountService.label(variant.account),
+          reconnectBy,
+          reason: expired || reconnectBy! <= new Date()
+            ? 'The account\'s authorization has expired'
+            : 'The account\'s authorization expires before the post is due',
+        });
+      }
+    }
+
+    return atRisk;
+  }
+
+  // Check on startup, then every hour
+  static start(): NodeJS.Timeout {
+    console.log('Starting token health checks...');
+    this.checkAll();
+    return setInterval(() => {
+      this.checkAll();
+    }, CHECK_INTERVAL_MS);
+  }
+}
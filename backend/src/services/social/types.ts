@@ -0,0 +1,83 @@
+import type { MediaFile } from '../media.service';
+
+// Connector id as declared in the connector registry, e.g. 'twitter' or 'linkedin'
+export type SocialPlatformId = string;
+
+// Tokens stored for a connected account
+export interface AccountCredentials {
+  accessToken: string;
+  accessSecret?: string | null; // OAuth 1.0a only
+  refreshToken?: string | null;
+  tokenExpiresAt?: Date | null;
+  refreshTokenExpiresAt?: Date | null; // Null when the refresh token doesn't expire (or there is none)
+  instanceUrl?: string | null; // Server the account lives on, for federated networks
+}
+
+export interface AccountProfile {
+  externalId: string; // The account's id on the platform
+  username?: string | null;
+  displayName?: string | null;
+}
+
+// Where to send the user to authorize, plus what the callback needs to finish the flow
+export interface ConnectRequest {
+  authUrl: string;
+  state: string; // Echoed back to the callback in the connector's stateParam
+  stateData?: Record<string, string>; // Kept server-side until the callback, e.g. a PKCE verifier
+}
+
+export interface ConnectResult {
+  credentials: AccountCredentials;
+  profile: AccountProfile;
+}
+
+// An identity an account can publish as: the account itself, or e.g. a LinkedIn company page it administers
+export interface PostAuthor {
+  id: string; // Passed back as PublishRequest.author
+  name: string;
+  type: 'person' | 'organization';
+}
+
+export interface PublishRequest {
+  text: string;
+  media: MediaFile[];
+  threadSegments?: string[]; // Published as a reply chain when the platform supports threads
+  contentWarning?: string | null; // Hides the post behind this text where the platform supports it
+  author?: string | null; // PostAuthor id to publish as; the account itself when not given
+}
+
+export interface PublishResult {
+  id: string; // First (or only) post
+  ids: string[]; // Every post, in order, for threads
+  url?: string;
+  author?: string; // Who the post went out as, for platforms that support authors
+}
+
+export interface PostMetrics {
+  likes?: number;
+  reposts?: number;
+  replies?: number;
+  impressions?: number;
+}
+
+// Everything the app needs to know about a social network, declared by its module in ./connectors.
+// Optional methods are left out when the platform doesn't support them. A connector signs in
+// either through OAuth (connect + callback) or with credentials the user enters (login).
+export interface SocialConnector {
+  id: SocialPlatformId;
+  name: string;
+  requiredEnv: string[]; // Connector is available only when all of these are set
+  stateParam?: string; // Callback query parameter carrying the state (default 'state')
+  connect?(callbackUrl: string, params: Record<string, unknown>): Promise<ConnectRequest>; // params: the connect request's query
+  callback?(
+    query: Record<string, unknown>,
+    stateData: Record<string, string>,
+    callbackUrl: string
+  ): Promise<ConnectResult>;
+  login?(params: Record<string, unknown>): Promise<ConnectResult>; // params: the login request's body
+  refresh?(credentials: AccountCredentials): Promise<AccountCredentials>;
+  listAuthors?(credentials: AccountCredentials): Promise<PostAuthor[]>; // Identities the account can publish as, itself first
+  publish?(credentials: AccountCredentials, request: PublishRequest): Promise<PublishResult>;
+  fetchMetrics?(credentials: AccountCredentials, postId: string): Promise<PostMetrics>;
+  disconnect?(credentials: AccountCredentials): Promise<void>; // Revoke tokens on the platform
+}
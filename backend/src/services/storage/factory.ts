@@ -0,0 +1,47 @@
+import { FilesystemStorageDriver } from './filesystem.driver';
+import { S3StorageDriver } from './s3.driver';
+import { IStorageDriver } from './types';
+
+export class StorageFactory {
+  private static drivers: Map<string, IStorageDriver> = new Map();
+
+  // Driver new files are written to, chosen by MEDIA_STORAGE_DRIVER
+  static getDefaultDriver(): IStorageDriver {
+    return this.getDriver(process.env.MEDIA_STORAGE_DRIVER || 'filesystem');
+  }
+
+  // Existing files are read with the driver they were stored with, so switching drivers doesn't orphan them
+  static getDriver(name: string): IStorageDriver {
+    if (this.drivers.has(name)) {
+      return this.drivers.get(name)!;
+    }
+
+    let driver: IStorageDriver;
+
+    switch (name) {
+      case 'filesystem':
+        driver = new FilesystemStorageDriver(process.env.MEDIA_STORAGE_PATH || 'uploads');
+        break;
+
+      case 's3':
+        if (!process.env.S3_BUCKET) {
+          throw new Error('S3 storage not configured: missing S3_BUCKET');
+        }
+        driver = new S3StorageDriver({
+          bucket: process.env.S3_BUCKET,
+          region: process.env.S3_REGION || 'us-east-1',
+          endpoint: process.env.S3_ENDPOINT,
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        });
+        break;
+
+      default:
+        throw new Error(`Unsupported storage driver: ${name}`);
+    }
+
+    this.drivers.set(name, driver);
+    return driver;
+  }
+}
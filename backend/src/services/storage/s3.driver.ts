@@ -0,0 +1,61 @@
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { IStorageDriver, StoredObject } from './types';
+
+// Stores files in S3 or any S3-compatible service (MinIO, Cloudflare R2, DigitalOcean Spaces)
+export class S3StorageDriver implements IStorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(config: {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle?: boolean;
+  }) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      // Without explicit keys the SDK falls back to its default credential chain
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error(`Empty object: ${key}`);
+    }
+
+    return {
+      data: Buffer.from(await response.Body.transformToByteArray()),
+      contentType: response.ContentType || 'application/octet-stream',
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+}
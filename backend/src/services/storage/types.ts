@@ -0,0 +1,14 @@
+// Storage Types
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+// Where media files live. Keys are relative paths such as "<userId>/<assetId>.png".
+export interface IStorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { TokenEncryptionService } from './token-encryption.service';
+
+const KEY_1 = crypto.randomBytes(32).toString('base64');
+const KEY_2 = crypto.randomBytes(32).toString('base64');
+
+// Keys are read from the environment once and cached, so reset the cache whenever they change
+function configure(keys: string, version?: string): void {
+  process.env.TOKEN_ENCRYPTION_KEYS = keys;
+  if (version) {
+    process.env.TOKEN_ENCRYPTION_KEY_VERSION = version;
+  } else {
+    delete process.env.TOKEN_ENCRYPTION_KEY_VERSION;
+  }
+  (TokenEncryptionService as any).keys = null;
+}
+
+describe('TokenEncryptionService', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    (TokenEncryptionService as any).keys = null;
+  });
+
+  it('leaves values in plaintext while no key is configured', () => {
+    configure('');
+
+    expect(TokenEncryptionService.isConfigured()).toBe(false);
+    expect(TokenEncryptionService.encrypt('secret-token')).toBe('secret-token');
+  });
+
+  it('picks up keys set after an unconfigured lookup', () => {
+    configure('');
+    expect(TokenEncryptionService.isConfigured()).toBe(false);
+
+    process.env.TOKEN_ENCRYPTION_KEYS = `1:${KEY_1}`;
+    expect(TokenEncryptionService.isConfigured()).toBe(true);
+  });
+
+  it('round trips a value through encryption', () => {
+    configure(`1:${KEY_1}`);
+
+    const encrypted = TokenEncryptionService.encrypt('secret-token ✓');
+
+    expect(TokenEncryptionService.isEncrypted(encrypted)).toBe(true);
+    expect(TokenEncryptionService.versionOf(encrypted)).toBe('1');
+    expect(encrypted).not.toContain('secret-token');
+    expect(TokenEncryptionService.decrypt(encrypted)).toBe('secret-token ✓');
+  });
+
+  it('uses a fresh data key for every value', () => {
+    configure(`1:${KEY_1}`);
+
+    expect(TokenEncryptionService.encrypt('same')).not.toBe(TokenEncryptionService.encrypt('same'));
+  });
+
+  it('does not encrypt twice and passes plaintext through decrypt', () => {
+    configure(`1:${KEY_1}`);
+    const encrypted = TokenEncryptionService.encrypt('secret-token');
+
+    expect(TokenEncryptionService.encrypt(encrypted)).toBe(encrypted);
+    expect(TokenEncryptionService.decrypt('legacy-plaintext')).toBe('legacy-plaintext');
+  });
+
+  it('rejects a tampered value', () => {
+    configure(`1:${KEY_1}`);
+    const encrypted = TokenEncryptionService.encrypt('secret-token');
+    const payload = Buffer.from(encrypted.split(':')[3], 'base64');
+    payload[payload.length - 1] ^= 1;
+    const tampered = [...encrypted.split(':').slice(0, 3), payload.toString('base64')].join(':');
+
+    expect(() => TokenEncryptionService.decrypt(tampered)).toThrow();
+  });
+
+  it('writes with the last listed key unless a version is pinned', () => {
+    configure(`1:${KEY_1},2:${KEY_2}`);
+    expect(TokenEncryptionService.currentVersion()).toBe('2');
+
+    configure(`1:${KEY_1},2:${KEY_2}`, '1');
+    expect(TokenEncryptionService.currentVersion()).toBe('1');
+
+    configure(`1:${KEY_1}`, '3');
+    expect(() => TokenEncryptionService.currentVersion()).toThrow('TOKEN_ENCRYPTION_KEY_VERSION 3 is not in TOKEN_ENCRYPTION_KEYS');
+  });
+
+  it('rejects malformed keys', () => {
+    configure('1:not-a-32-byte-key');
+
+    expect(() => TokenEncryptionService.isConfigured()).toThrow('Invalid TOKEN_ENCRYPTION_KEYS entry for version "1"');
+  });
+
+  it('rewraps values under a new key without touching the payload', () => {
+    configure(`1:${KEY_1}`);
+    const original = TokenEncryptionService.encrypt('secret-token');
+
+    configure(`1:${KEY_1},2:${KEY_2}`);
+    const rotated = TokenEncryptionService.rewrap(original);
+
+    expect(TokenEncryptionService.versionOf(rotated)).toBe('2');
+    expect(rotated.split(':')[3]).toBe(original.split(':')[3]);
+    expect(TokenEncryptionService.rewrap(rotated)).toBe(rotated);
+
+    // Once the old key is retired, only the rewrapped value can still be read
+    configure(`2:${KEY_2}`);
+    expect(TokenEncryptionService.decrypt(rotated)).toBe('secret-token');
+    expect(() => TokenEncryptionService.decrypt(original))
+      .toThrow('Token encrypted with key version 1, which is not in TOKEN_ENCRYPTION_KEYS');
+  });
+
+  it('encrypts plaintext values when rewrapping', () => {
+    configure(`1:${KEY_1}`);
+    const rewrapped = TokenEncryptionService.rewrap('legacy-plaintext');
+
+    expect(TokenEncryptionService.versionOf(rewrapped)).toBe('1');
+    expect(TokenEncryptionService.decrypt(rewrapped)).toBe('legacy-plaintext');
+  });
+});
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+
+// Encrypted values look like enc:<key version>:<wrapped data key>:<payload>. Anything else is plaintext.
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Secrets encrypted at rest, per Prisma model
+export const ENCRYPTED_FIELDS = {
+  connectedAccount: ['accessToken', 'accessSecret', 'refreshToken'],
+  mastodonApp: ['clientSecret'],
+} as const;
+
+// iv + auth tag + ciphertext, base64
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// Envelope encryption: each value gets its own random data key, which is stored alongside it wrapped
+// by a master key from TOKEN_ENCRYPTION_KEYS. Rotating the master key only re-wraps the data keys.
+export class TokenEncryptionService {
+  private static keys: Map<string, Buffer> | null = null;
+
+  // TOKEN_ENCRYPTION_KEYS="1:<base64 32 bytes>,2:<base64 32 bytes>"; generate one with `openssl rand -base64 32`
+  private static getKeys(): Map<string, Buffer> {
+    if (this.keys) return this.keys;
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+      const [version, encoded] = entry.split(':');
+      const key = Buffer.from(encoded || '', 'base64');
+      if (!version || key.length !== 32) {
+        throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry for version "${version}": expected <version>:<base64 32-byte key>`);
+      }
+      keys.set(version, key);
+    }
+
+    // An empty map is not cached, so keys loaded into the environment later are still picked up
+    if (keys.size > 0) this.keys = keys;
+    return keys;
+  }
+
+  static isConfigured(): boolean {
+    return this.getKeys().size > 0;
+  }
+
+  // Version new values are written with: TOKEN_ENCRYPTION_KEY_VERSION, else the last key listed
+  static currentVersion(): string | null {
+    const keys = this.getKeys();
+    if (keys.size === 0) return null;
+
+    const version = process.env.TOKEN_ENCRYPTION_KEY_VERSION || [...keys.keys()].pop()!;
+    if (!keys.has(version)) {
+      throw new Error(`TOKEN_ENCRYPTION_KEY_VERSION ${version} is not in TOKEN_ENCRYPTION_KEYS`);
+    }
+    return version;
+  }
+
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(`${PREFIX}:`);
+  }
+
+  // Key version a value is encrypted with, or null for plaintext
+  static versionOf(value: string): string | null {
+    return this.isEncrypted(value) ? value.split(':')[1] : null;
+  }
+
+  // Values stay plaintext while no key is configured; already encrypted values are left as they are
+  static encrypt(value: string): string {
+    const version = this.currentVersion();
+    if (!version || this.isEncrypted(value)) return value;
+
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = seal(this.getKeys().get(version)!, dataKey);
+    return [PREFIX, version, wrappedKey, seal(dataKey, Buffer.from(value, 'utf8'))].join(':');
+  }
+
+  // Plaintext values (written before encryption was enabled) are returned unchanged
+  static decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [, version, wrappedKey, payload] = value.split(':');
+    const masterKey = this.getKeys().get(version);
+    if (!masterKey) {
+      throw new Error(`Token encrypted with key version ${version}, which is not in TOKEN_ENCRYPTION_KEYS`);
+    }
+
+    return unseal(unseal(masterKey, wrappedKey), payload).toString('utf8');
+  }
+
+  // Wrap the value's data key with the current master key; the payload itself is untouched
+  static rewrap(value: string): string {
+    const version = this.currentVersion();
+    if (!version || !this.isEncrypted(value)) return this.encrypt(value);
+
+    const [, oldVersion, wrappedKey, payload] = value.split(':');
+    if (oldVersion === version) return value;
+
+    const oldKey = this.getKeys().get(oldVersion);
+    if (!oldKey) {
+      throw new Error(`Token encrypted with key version ${oldVersion}, which is not in TOKEN_ENCRYPTION_KEYS`);
+    }
+
+    return [PREFIX, version, seal(this.getKeys().get(version)!, unseal(oldKey, wrappedKey)), payload].join(':');
+  }
+}
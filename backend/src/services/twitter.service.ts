@@ -1,4 +1,18 @@
 import { TwitterApi } from 'twitter-api-v2';
+import { MediaFile } from './media.service';
+
+// Raised when a thread stops part way; postedIds lists the tweets that did go out and cause is the failure
+export class ThreadPostError extends Error {
+  postedIds: string[];
+  cause: unknown;
+
+  constructor(message: string, postedIds: string[], cause?: unknown) {
+    super(message);
+    this.name = 'ThreadPostError';
+    this.postedIds = postedIds;
+    this.cause = cause;
+  }
+}
 
 export class TwitterService {
   private client: TwitterApi;
@@ -24,19 +38,14 @@ export class TwitterService {
   }
 
   /**
-   * Post a tweet with media (images)
+   * Post a tweet with media (images), already loaded via MediaService.resolveMedia
    */
-  async postTweetWithMedia(text: string, mediaUrls: string[]): Promise<{ id: string; text: string }> {
+  async postTweetWithMedia(text: string, media: MediaFile[]): Promise<{ id: string; text: string }> {
     // Upload media first
     const mediaIds: string[] = [];
     
-    for (const url of mediaUrls) {
-      // Fetch image from URL
-      const response = await fetch(url);
-      const buffer = Buffer.from(await response.arrayBuffer());
-      
-      // Upload to Twitter
-      const mediaId = await this.client.v1.uploadMedia(buffer, { mimeType: response.headers.get('content-type') || 'image/jpeg' });
+    for (const file of media) {
+      const mediaId = await this.client.v1.uploadMedia(file.data, { mimeType: file.mimeType });
       mediaIds.push(mediaId);
     }
 
@@ -51,6 +60,50 @@ export class TwitterService {
     };
   }
 
+  /**
+   * Post a thread as a reply chain. Media, if any, is attached to the first tweet.
+   */
+  async postThread(segments: string[], media: MediaFile[] = []): Promise<{ ids: string[]; tweets: { id: string; text: string }[] }> {
+    const tweets: { id: string; text: string }[] = [];
+
+    for (const [index, segment] of segments.entries()) {
+      try {
+        let tweet: { id: string; text: string };
+        if (index === 0) {
+          tweet = media.length > 0
+            ? await this.postTweetWithMedia(segment, media)
+            : await this.postTweet(segment);
+        } else {
+          const reply = await this.client.v2.reply(segment, tweets[index - 1].id);
+          tweet = { id: reply.data.id, text: reply.data.text };
+        }
+        tweets.push(tweet);
+      } catch (error: any) {
+        throw new ThreadPostError(
+          `Thread stopped at tweet ${index + 1} of ${segments.length}: ${error.message}`,
+          tweets.map(t => t.id),
+          error
+        );
+      }
+    }
+
+    return { ids: tweets.map(t => t.id), tweets };
+  }
+
+  /**
+   * Get engagement counts for a tweet
+   */
+  async getTweetMetrics(tweetId: string): Promise<{ likes: number; reposts: number; replies: number; impressions?: number }> {
+    const tweet = await this.client.v2.singleTweet(tweetId, { 'tweet.fields': ['public_metrics'] });
+    const metrics = tweet.data.public_metrics;
+    return {
+      likes: metrics?.like_count ?? 0,
+      reposts: (metrics?.retweet_count ?? 0) + (metrics?.quote_count ?? 0),
+      replies: metrics?.reply_count ?? 0,
+      impressions: metrics?.impression_count,
+    };
+  }
+
   /**
    * Get user's Twitter profile
    */
@@ -60,9 +113,10 @@ export class TwitterService {
   }
 
   /**
-   * Generate OAuth 1.0a authorization URL
+   * Generate OAuth 1.0a authorization URL. forceLogin asks for credentials even when
+   * the browser is already signed in to Twitter.
    */
-  static async generateAuthUrl(callbackUrl: string): Promise<{ url: string; oauth_token: string; oauth_token_secret: string }> {
+  static async generateAuthUrl(callbackUrl: string, forceLogin = false): Promise<{ url: string; oauth_token: string; oauth_token_secret: string }> {
     try {
       const client = new TwitterApi({
         appKey: process.env.TWITTER_API_KEY!,
@@ -70,7 +124,7 @@ export class TwitterService {
       });
 
       console.log('Generating Twitter auth link with callback:', callbackUrl);
-      const authLink = await client.generateAuthLink(callbackUrl);
+      const authLink = await client.generateAuthLink(callbackUrl, forceLogin ? { forceLogin: true } : {});
       console.log('Successfully generated auth link');
       return authLink;
     } catch (error: any) {
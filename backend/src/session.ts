@@ -0,0 +1,106 @@
+import { Application, NextFunction, Request, Response } from 'express';
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+
+declare module 'express-session' {
+  interface SessionData {
+    userAgent?: string;
+    ip?: string;
+    createdAt?: string; // ISO timestamp of the first authenticated request
+    lastSeenAt?: string;
+  }
+}
+
+const PgStore = connectPgSimple(session);
+
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+// lastSeenAt is only rewritten this often, so most requests don't save the session
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+// SESSION_SECRET may list several comma-separated secrets: the first signs new cookies, the rest are
+// still accepted, so the secret can be rotated without logging everyone out
+function getSessionSecrets(): string[] {
+  const secrets = (process.env.SESSION_SECRET || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (secrets.length > 0) return secrets;
+
+  if (isProduction()) {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  console.warn('SESSION_SECRET is not set: using an insecure development secret');
+  return ['development-session-secret'];
+}
+
+// TRUST_PROXY accepts anything Express's "trust proxy" setting does: true, a hop count, or addresses/subnets.
+// Production defaults to one hop (e.g. the Heroku router) so secure cookies work behind TLS termination.
+function getTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY;
+  if (value === undefined || value === '') return isProduction() ? 1 : false;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+function getCookieSettings(): session.CookieOptions {
+  const secure = process.env.SESSION_COOKIE_SECURE
+    ? process.env.SESSION_COOKIE_SECURE === 'true'
+    : isProduction();
+
+  // Not strict: browsers leave strict cookies off the platform's redirect back to the OAuth callback,
+  // which then can't match the session that started the connect flow
+  const sameSite = (process.env.SESSION_COOKIE_SAMESITE || 'lax') as 'lax' | 'none';
+  if (!['lax', 'none'].includes(sameSite)) {
+    throw new Error('SESSION_COOKIE_SAMESITE must be lax or none (strict would break connecting social accounts)');
+  }
+  if (sameSite === 'none' && !secure) {
+    throw new Error('SESSION_COOKIE_SAMESITE=none requires secure cookies (SESSION_COOKIE_SECURE=true)');
+  }
+
+  return {
+    secure,
+    httpOnly: true,
+    sameSite,
+    maxAge: SESSION_MAX_AGE_MS,
+    domain: process.env.SESSION_COOKIE_DOMAIN || undefined, // Unset allows both localhost and 127.0.0.1 in development
+  };
+}
+
+// Sessions live in Postgres (the user_sessions table) so they survive restarts and are shared between instances
+export function configureSession(app: Application): void {
+  app.set('trust proxy', getTrustProxy());
+
+  app.use(
+    session({
+      store: new PgStore({
+        conString: process.env.DATABASE_URL,
+        tableName: 'user_sessions', // Created by the Prisma migrations
+        pruneSessionInterval: 15 * 60, // Seconds
+      }),
+      secret: getSessionSecrets(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: getCookieSettings(),
+    })
+  );
+}
+
+// Record the device a signed-in session belongs to and when it was last used, for the sessions list.
+// Must run after passport.session() so req.user is set.
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction): void {
+  if (req.user && req.session) {
+    const now = new Date();
+
+    if (!req.session.createdAt) {
+      req.session.createdAt = now.toISOString();
+      req.session.userAgent = req.get('user-agent') || undefined;
+    }
+
+    const lastSeen = req.session.lastSeenAt ? Date.parse(req.session.lastSeenAt) : 0;
+    if (now.getTime() - lastSeen >= LAST_SEEN_RESOLUTION_MS) {
+      req.session.lastSeenAt = now.toISOString();
+      req.session.ip = req.ip;
+    }
+  }
+
+  next();
+}
@@ -0,0 +1,66 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// URLs and hosts that come from users (media URLs, Mastodon instances, Bluesky entryways) must not reach the
+// server's own network: loopback, private, link-local (including cloud metadata at 169.254.169.254), CGNAT,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges
+// by BlockList itself.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Every address the URL's host resolves to must be public. `label` names the URL in errors, e.g. "Media URL".
+export async function assertPublicHost(url: URL, label: string): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported ${label}: ${url}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+
+  for (const { address, family } of addresses) {
+    if (BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+      throw new Error(`${label} points to a private network address: ${url}`);
+    }
+  }
+}
+
+// ALLOW_PRIVATE_SERVICE_HOSTS=true lets development and tests talk to a local Mastodon or Bluesky server over
+// plain http. It is ignored in production.
+export function allowsPrivateServiceHosts(): boolean {
+  return process.env.ALLOW_PRIVATE_SERVICE_HOSTS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+// A federated server the user picked (Mastodon instance, Bluesky entryway or PDS) must be public and use https,
+// unless private service hosts are allowed
+export async function assertPublicServiceUrl(url: string, label: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid ${label}: ${url}`);
+  }
+
+  if (allowsPrivateServiceHosts()) {
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`Unsupported ${label}: ${url}`);
+    }
+    return;
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error(`${label} must use https: ${url}`);
+  }
+  await assertPublicHost(parsed, label);
+}
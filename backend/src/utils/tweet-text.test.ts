@@ -0,0 +1,105 @@
+import {
+  MAX_TWEET_LENGTH,
+  checkThread,
+  countTweetLength,
+  isSegmentList,
+  isValidTweet,
+  splitIntoThread,
+} from './tweet-text';
+
+describe('countTweetLength', () => {
+  it('counts Latin text one per character', () => {
+    expect(countTweetLength('hello world')).toBe(11);
+  });
+
+  it('counts every URL as a t.co link', () => {
+    expect(countTweetLength('see https://example.com/a/very/long/path/that/keeps/going')).toBe(4 + 23);
+    expect(countTweetLength('www.example.com')).toBe(23);
+  });
+
+  it('counts CJK characters twice', () => {
+    expect(countTweetLength('你好')).toBe(4);
+  });
+
+  it('counts an emoji as two, including modifiers, ZWJ sequences and flags', () => {
+    expect(countTweetLength('👍')).toBe(2);
+    expect(countTweetLength('👍🏽')).toBe(2);
+    expect(countTweetLength('👨‍👩‍👧')).toBe(2);
+    expect(countTweetLength('🇺🇸')).toBe(2);
+  });
+
+  it('normalizes combining characters before counting', () => {
+    expect(countTweetLength('é')).toBe(1);
+  });
+});
+
+describe('isValidTweet', () => {
+  it('accepts text up to the limit', () => {
+    expect(isValidTweet('a'.repeat(MAX_TWEET_LENGTH))).toBe(true);
+  });
+
+  it('rejects empty and over-long text', () => {
+    expect(isValidTweet('')).toBe(false);
+    expect(isValidTweet('a'.repeat(MAX_TWEET_LENGTH + 1))).toBe(false);
+    expect(isValidTweet('你'.repeat(141))).toBe(false);
+  });
+});
+
+describe('isSegmentList', () => {
+  it('accepts an array of non-empty strings', () => {
+    expect(isSegmentList(['one', 'two'])).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isSegmentList('one')).toBe(false);
+    expect(isSegmentList(['one', 2])).toBe(false);
+    expect(isSegmentList(['one', '  '])).toBe(false);
+    expect(isSegmentList([{ text: 'one' }])).toBe(false);
+  });
+});
+
+describe('checkThread', () => {
+  it('reports the weighted length and error of each segment', () => {
+    const [ok, empty, long] = checkThread(['fine', '  ', 'a'.repeat(MAX_TWEET_LENGTH + 10)]);
+
+    expect(ok).toEqual({ index: 0, text: 'fine', length: 4, valid: true, error: undefined });
+    expect(empty.valid).toBe(false);
+    expect(empty.error).toBe('Tweet is empty');
+    expect(long.valid).toBe(false);
+    expect(long.length).toBe(MAX_TWEET_LENGTH + 10);
+    expect(long.error).toBe(`Tweet is 10 characters over the ${MAX_TWEET_LENGTH} limit`);
+  });
+});
+
+describe('splitIntoThread', () => {
+  it('leaves a single short tweet alone', () => {
+    expect(splitIntoThread('Just one tweet')).toEqual(['Just one tweet']);
+  });
+
+  it('splits on explicit separators and numbers the tweets', () => {
+    expect(splitIntoThread('First\n---\nSecond\n  ---  \nThird')).toEqual(['First 1/3', 'Second 2/3', 'Third 3/3']);
+  });
+
+  it('omits the counter when numbering is off', () => {
+    expect(splitIntoThread('First\n---\nSecond', { numbered: false })).toEqual(['First', 'Second']);
+  });
+
+  it('breaks long text at sentences into tweets that fit, counter included', () => {
+    const sentence = 'This sentence is here to pad the thread out a bit. ';
+    const text = sentence.repeat(20).trim();
+    const thread = splitIntoThread(text);
+
+    expect(thread.length).toBeGreaterThan(1);
+    thread.forEach((tweet, index) => {
+      expect(countTweetLength(tweet)).toBeLessThanOrEqual(MAX_TWEET_LENGTH);
+      expect(tweet.endsWith(` ${index + 1}/${thread.length}`)).toBe(true);
+    });
+    expect(thread.map(tweet => tweet.replace(/ \d+\/\d+$/, '')).join(' ')).toBe(text);
+  });
+
+  it('hard splits a single word longer than a tweet', () => {
+    const thread = splitIntoThread('x'.repeat(600), { numbered: false });
+
+    expect(thread.map(tweet => tweet.length)).toEqual([MAX_TWEET_LENGTH, MAX_TWEET_LENGTH, 40]);
+  });
+});
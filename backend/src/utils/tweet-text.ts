@@ -0,0 +1,178 @@
+// Twitter's weighted character counting (twitter-text v3 rules) and thread splitting
+
+export const MAX_TWEET_LENGTH = 280;
+export const MAX_THREAD_TWEETS = 25;
+
+// Every URL counts as a t.co link, whatever its real length
+const TRANSFORMED_URL_LENGTH = 23;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+// An emoji, including skin tone modifiers and ZWJ sequences, or a flag (pair of regional indicators)
+const EMOJI_PATTERN = /(?:\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*|\p{Regional_Indicator}{2})/gu;
+
+// Code points that count as one character; everything else (CJK, most symbols) counts as two
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+// Separator the AI is asked to put between tweets, e.g. a line containing only "---"
+const EXPLICIT_SEPARATOR = /\n\s*-{3,}\s*\n/;
+
+// Room left for a " 12/15" counter on numbered threads
+const NUMBERING_RESERVE = 6;
+
+export interface TweetSegmentCheck {
+  index: number;
+  text: string;
+  length: number;
+  valid: boolean;
+  error?: string;
+}
+
+export function countTweetLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.normalize('NFC').replace(URL_PATTERN, () => {
+    length += TRANSFORMED_URL_LENGTH;
+    return '';
+  });
+
+  const withoutEmoji = withoutUrls.replace(EMOJI_PATTERN, () => {
+    length += 2;
+    return '';
+  });
+
+  for (const char of withoutEmoji) {
+    const codePoint = char.codePointAt(0)!;
+    length += LIGHT_RANGES.some(([min, max]) => codePoint >= min && codePoint <= max) ? 1 : 2;
+  }
+
+  return length;
+}
+
+export function isValidTweet(text: string): boolean {
+  const length = countTweetLength(text);
+  return length > 0 && length <= MAX_TWEET_LENGTH;
+}
+
+// Request bodies are untrusted: thread segments must all be non-empty strings before they are counted
+export function isSegmentList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(segment => typeof segment === 'string' && segment.trim().length > 0);
+}
+
+// Check every segment of a thread, reporting weighted length and why a segment is invalid
+export function checkThread(segments: string[]): TweetSegmentCheck[] {
+  return segments.map((text, index) => {
+    const length = countTweetLength(text);
+    let error: string | undefined;
+
+    if (!text.trim()) {
+      error = 'Tweet is empty';
+    } else if (length > MAX_TWEET_LENGTH) {
+      error = `Tweet is ${length - MAX_TWEET_LENGTH} characters over the ${MAX_TWEET_LENGTH} limit`;
+    }
+
+    return { index, text, length, valid: !error, error };
+  });
+}
+
+// Split text into tweets. Explicit "---" separators are honoured first; anything still too long is
+// broken at paragraphs, then sentences, then words. Numbered threads get a " 1/3" suffix per tweet.
+export function splitIntoThread(text: string, options: { numbered?: boolean } = {}): string[] {
+  const numbered = options.numbered ?? true;
+  const parts = text
+    .split(EXPLICIT_SEPARATOR)
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  // Nothing to split: a single tweet needs no counter
+  if (parts.length === 1 && isValidTweet(parts[0])) {
+    return parts;
+  }
+
+  const limit = MAX_TWEET_LENGTH - (numbered ? NUMBERING_RESERVE : 0);
+  const segments = parts.flatMap(part => packSegments(part, limit));
+
+  if (!numbered || segments.length < 2) {
+    return segments;
+  }
+
+  return segments.map((segment, index) => `${segment} ${index + 1}/${segments.length}`);
+}
+
+function packSegments(text: string, limit: number): string[] {
+  if (countTweetLength(text) <= limit) {
+    return [text];
+  }
+
+  const levels: Array<{ pattern: RegExp; joiner: string }> = [
+    { pattern: /\n{2,}/, joiner: '\n\n' },
+    { pattern: /(?<=[.!?…])\s+/, joiner: ' ' },
+    { pattern: /\s+/, joiner: ' ' },
+  ];
+
+  for (const { pattern, joiner } of levels) {
+    const units = text.split(pattern).map(unit => unit.trim()).filter(Boolean);
+    if (units.length > 1) {
+      return packUnits(units, joiner, limit);
+    }
+  }
+
+  return hardSplit(text, limit);
+}
+
+// Greedily join units into segments that fit, splitting any unit that is too long on its own
+function packUnits(units: string[], joiner: string, limit: number): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    const candidate = current ? `${current}${joiner}${unit}` : unit;
+
+    if (countTweetLength(candidate) <= limit) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      segments.push(current);
+      current = '';
+    }
+
+    if (countTweetLength(unit) <= limit) {
+      current = unit;
+    } else {
+      segments.push(...packSegments(unit, limit));
+    }
+  }
+
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+// Last resort for a single word longer than a tweet
+function hardSplit(text: string, limit: number): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const char of text) {
+    if (countTweetLength(current + char) > limit) {
+      segments.push(current);
+      current = '';
+    }
+    current += char;
+  }
+
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments;
+}
@@ -0,0 +1,20 @@
+// First, so db.ts sees the .env values when it is imported
+import 'dotenv/config';
+import prisma from './db';
+import { SchedulerService } from './services/scheduler.service';
+import { TokenHealthService } from './services/social/token-health.service';
+
+// Background jobs without the web server. Run one or more of these and set RUN_SCHEDULER_IN_WEB=false
+// to keep publishing off the web processes; posts are claimed atomically, so any number can run at once.
+const schedulerInterval = SchedulerService.startScheduler();
+const tokenHealthInterval = TokenHealthService.start();
+
+// Graceful shutdown: finish the post being published before exiting
+process.on('SIGTERM', async () => {
+  console.log('SIGTERM signal received: stopping worker');
+  clearInterval(tokenHealthInterval);
+  await SchedulerService.stopScheduler(schedulerInterval);
+  await prisma.$disconnect();
+  console.log('Worker stopped');
+  process.exit(0);
+});
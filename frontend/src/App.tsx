@@ -133,7 +133,7 @@ function App() {
           </nav>
 
           {activeTab === 'generator' && <AIGenerator />}
-          {activeTab === 'scheduled' && <ScheduledPosts />}
+          {activeTab === 'scheduled' && <ScheduledPosts onOpenProfile={() => setActiveTab('profile')} />}
           {activeTab === 'analytics' && <Analytics />}
           {activeTab === 'profile' && <Profile />}
         </>
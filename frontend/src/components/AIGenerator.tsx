@@ -1,20 +1,122 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import './AIGenerator.css';
-import { getBackendUrl } from '../utils/api';
+import { getBackendUrl, resolveMediaUrl } from '../utils/api';
+import { readServerSentEvents } from '../utils/sse';
+
+interface AIModel {
+  id: string;
+  name: string;
+  contentTypes: string[];
+  maxTokens?: number;
+  supportsImages?: boolean;
+  supportsSystemPrompt?: boolean;
+  temperature?: { min: number; max: number };
+}
 
 interface AIProvider {
   id: string;
   name: string;
   supports: string[];
+  models: AIModel[];
 }
 
 interface AIResponse {
   provider: string;
+  requestedProvider?: string;
   contentType: string;
   content: string | string[];
   model?: string;
 }
 
+interface MediaAsset {
+  id: string;
+  url: string;
+  mimeType: string;
+  prompt?: string | null;
+  createdAt: string;
+}
+
+interface CompareTarget {
+  provider: string;
+  model: string;
+}
+
+interface ComparisonResult {
+  provider: string;
+  model?: string;
+  content?: string;
+  requestId?: string;
+  metrics?: {
+    responseTimeMs: number;
+    estimatedCost: number;
+  };
+  error?: string;
+}
+
+interface Comparison {
+  groupId: string;
+  results: ComparisonResult[];
+  winnerId?: string | null;
+}
+
+interface TweetCheck {
+  index: number;
+  text: string;
+  length: number;
+  valid: boolean;
+  error?: string;
+}
+
+type SocialPlatform = 'twitter' | 'linkedin' | 'mastodon' | 'bluesky';
+
+const PLATFORM_NAMES: Record<SocialPlatform, string> = {
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
+};
+
+const PLATFORM_ICONS: Record<SocialPlatform, string> = {
+  twitter: '🐦',
+  linkedin: '💼',
+  mastodon: '🐘',
+  bluesky: '🦋',
+};
+
+// Platforms that take threadSegments as a reply chain
+const THREAD_PLATFORMS: SocialPlatform[] = ['twitter', 'bluesky'];
+
+// Nickname when the user gave one, else the handle (LinkedIn names have no @)
+function accountLabel(platform: SocialPlatform, account: ConnectedAccount): string {
+  if (account.nickname) return account.nickname;
+  const handle = account.username || account.displayName || '';
+  return platform === 'linkedin' ? handle : `@${handle}`;
+}
+
+// Temperature range and output limit that every given model accepts
+function sharedLimits(models: AIModel[]): { temperature: { min: number; max: number }; maxTokens?: number } {
+  const temperature = { min: 0, max: 2 };
+  let maxTokens: number | undefined;
+  for (const model of models) {
+    if (model.temperature) {
+      temperature.min = Math.max(temperature.min, model.temperature.min);
+      temperature.max = Math.min(temperature.max, model.temperature.max);
+    }
+    if (model.maxTokens) {
+      maxTokens = Math.min(maxTokens ?? model.maxTokens, model.maxTokens);
+    }
+  }
+  return { temperature, maxTokens };
+}
+
+interface PlatformValidation {
+  platform: SocialPlatform;
+  valid: boolean;
+  length: number;
+  errors: string[];
+  warnings: string[];
+}
+
 interface GenerationRequest {
   id: string;
   provider: string;
@@ -30,14 +132,23 @@ interface GenerationRequest {
   canvaDesignUrl?: string;
 }
 
+interface ConnectedAccount {
+  id: string;
+  nickname: string | null;
+  username: string | null;
+  displayName: string | null;
+}
+
 interface TwitterStatus {
   isConnected: boolean;
   username: string | null;
+  accounts: ConnectedAccount[];
 }
 
 interface LinkedInStatus {
   isConnected: boolean;
   username: string | null;
+  accounts: ConnectedAccount[];
 }
 
 interface CanvaStatus {
@@ -45,6 +156,25 @@ interface CanvaStatus {
   userId: string | null;
 }
 
+interface MastodonStatus {
+  isConnected: boolean;
+  username: string | null;
+  accounts: ConnectedAccount[];
+}
+
+interface BlueskyStatus {
+  isConnected: boolean;
+  username: string | null;
+  accounts: ConnectedAccount[];
+}
+
+// Who a LinkedIn post can go out as: the member, or a company page they administer
+interface PostAuthor {
+  id: string;
+  name: string;
+  type: 'person' | 'organization';
+}
+
 interface CanvaTemplate {
   id: string;
   name: string;
@@ -55,18 +185,46 @@ export function AIGenerator() {
   const [providers, setProviders] = useState<AIProvider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState('');
   const [contentType, setContentType] = useState('text');
+  const [selectedModel, setSelectedModel] = useState('');
+  const [temperature, setTemperature] = useState(0.7);
+  const [maxTokens, setMaxTokens] = useState<number | null>(null); // Null leaves it to the model's own limit
   const [prompt, setPrompt] = useState('');
   const [context, setContext] = useState('');
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [threadMode, setThreadMode] = useState(false);
+  const [threadTexts, setThreadTexts] = useState<string[]>([]);
+  const [threadChecks, setThreadChecks] = useState<TweetCheck[]>([]);
+  const [platformVariants, setPlatformVariants] = useState<Partial<Record<SocialPlatform, string>>>({});
+  const [variantChecks, setVariantChecks] = useState<PlatformValidation[]>([]);
+  const [adapting, setAdapting] = useState(false);
+  const [compareTargets, setCompareTargets] = useState<CompareTarget[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [votingFor, setVotingFor] = useState<string | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  const [mediaLibrary, setMediaLibrary] = useState<MediaAsset[]>([]);
+  const [attachedMedia, setAttachedMedia] = useState<MediaAsset[]>([]);
+  const [imageCaption, setImageCaption] = useState('');
   const [response, setResponse] = useState<AIResponse | null>(null);
   const [error, setError] = useState('');
-  const [twitterStatus, setTwitterStatus] = useState<TwitterStatus>({ isConnected: false, username: null });
+  const [twitterStatus, setTwitterStatus] = useState<TwitterStatus>({ isConnected: false, username: null, accounts: [] });
   const [postingToTwitter, setPostingToTwitter] = useState(false);
   const [tweetSuccess, setTweetSuccess] = useState('');
-  const [linkedinStatus, setLinkedinStatus] = useState<LinkedInStatus>({ isConnected: false, username: null });
+  const [linkedinStatus, setLinkedinStatus] = useState<LinkedInStatus>({ isConnected: false, username: null, accounts: [] });
   const [postingToLinkedIn, setPostingToLinkedIn] = useState(false);
+  const [linkedinAuthors, setLinkedinAuthors] = useState<PostAuthor[]>([]);
+  const [linkedinAuthor, setLinkedinAuthor] = useState(''); // Company page URN; empty posts as the member
   const [linkedInSuccess, setLinkedInSuccess] = useState('');
   const [canvaStatus, setCanvaStatus] = useState<CanvaStatus>({ isConnected: false, userId: null });
+  const [mastodonStatus, setMastodonStatus] = useState<MastodonStatus>({ isConnected: false, username: null, accounts: [] });
+  const [postingToMastodon, setPostingToMastodon] = useState(false);
+  const [mastodonSuccess, setMastodonSuccess] = useState('');
+  const [contentWarning, setContentWarning] = useState('');
+  const [blueskyStatus, setBlueskyStatus] = useState<BlueskyStatus>({ isConnected: false, username: null, accounts: [] });
+  const [postingToBluesky, setPostingToBluesky] = useState(false);
+  const [blueskySuccess, setBlueskySuccess] = useState('');
   const [canvaTemplates, setCanvaTemplates] = useState<CanvaTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [creatingDesign, setCreatingDesign] = useState(false);
@@ -77,10 +235,42 @@ export function AIGenerator() {
   const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [scheduleDate, setScheduleDate] = useState('');
   const [scheduleTime, setScheduleTime] = useState('');
-  const [schedulePlatform, setSchedulePlatform] = useState<'twitter' | 'linkedin' | 'both'>('both');
+  const [postAccountIds, setPostAccountIds] = useState<Partial<Record<SocialPlatform, string[]>>>({});
+  const [scheduleAccountIds, setScheduleAccountIds] = useState<string[]>([]);
   const [scheduling, setScheduling] = useState(false);
   const [scheduleSuccess, setScheduleSuccess] = useState('');
 
+  const platformConnected: Record<SocialPlatform, boolean> = {
+    twitter: twitterStatus.isConnected,
+    linkedin: linkedinStatus.isConnected,
+    mastodon: mastodonStatus.isConnected,
+    bluesky: blueskyStatus.isConnected,
+  };
+
+  const platformAccounts: Record<SocialPlatform, ConnectedAccount[]> = {
+    twitter: twitterStatus.accounts,
+    linkedin: linkedinStatus.accounts,
+    mastodon: mastodonStatus.accounts,
+    bluesky: blueskyStatus.accounts,
+  };
+
+  // Accounts to post to right away: the ones ticked, or the platform's default (first) account
+  const selectedAccountIds = (platform: SocialPlatform): string[] =>
+    postAccountIds[platform] ?? platformAccounts[platform].slice(0, 1).map(account => account.id);
+
+  const toggleAccount = (platform: SocialPlatform, accountId: string, checked: boolean) => {
+    const current = selectedAccountIds(platform);
+    setPostAccountIds(prev => ({
+      ...prev,
+      [platform]: checked ? [...current, accountId] : current.filter(id => id !== accountId),
+    }));
+  };
+
+  const scheduleTargets = [...new Set(
+    (Object.keys(platformAccounts) as SocialPlatform[]).filter(platform =>
+      platformAccounts[platform].some(account => scheduleAccountIds.includes(account.id)))
+  )];
+
   useEffect(() => {
     const backendUrl = getBackendUrl();
     
@@ -123,6 +313,26 @@ export function AIGenerator() {
         console.error('Error fetching LinkedIn status:', err);
       });
 
+    // Fetch Mastodon authorization status
+    fetch(`${backendUrl}/api/social/mastodon/status`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => {
+        setMastodonStatus(data);
+      })
+      .catch(err => {
+        console.error('Error fetching Mastodon status:', err);
+      });
+
+    // Fetch Bluesky authorization status
+    fetch(`${backendUrl}/api/social/bluesky/status`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => {
+        setBlueskyStatus(data);
+      })
+      .catch(err => {
+        console.error('Error fetching Bluesky status:', err);
+      });
+
     // Fetch Canva authorization status
     fetch(`${backendUrl}/api/social/canva/status`, { credentials: 'include' })
       .then(res => res.json())
@@ -139,8 +349,63 @@ export function AIGenerator() {
 
     // Fetch recent generation requests
     fetchRecentRequests();
+    fetchMediaLibrary();
   }, []);
 
+  // Default to the provider's first model for the chosen content type
+  useEffect(() => {
+    const provider = providers.find(p => p.id === selectedProvider);
+    const models = provider?.models.filter(m => m.contentTypes.includes(contentType)) || [];
+    if (!models.some(m => m.id === selectedModel)) {
+      setSelectedModel(models[0]?.id || '');
+    }
+  }, [providers, selectedProvider, contentType]);
+
+  // Options must suit the selected model, or every compared model in compare mode (the server rejects, not clamps, them)
+  const optionModels = (compareMode && contentType === 'text'
+    ? compareTargets.map(target => providers
+        .find(p => p.id === target.provider)
+        ?.models.find(m => target.model ? m.id === target.model : m.contentTypes.includes('text')))
+    : [providers.find(p => p.id === selectedProvider)?.models.find(m => m.id === selectedModel)]
+  ).filter((model): model is AIModel => !!model);
+  const optionLimits = sharedLimits(optionModels);
+
+  // Keep temperature and max tokens within what those models accept
+  const { min: minTemperature, max: maxTemperature } = optionLimits.temperature;
+  const maxTokensLimit = optionLimits.maxTokens;
+  useEffect(() => {
+    setTemperature(t => Math.min(Math.max(t, minTemperature), maxTemperature));
+    if (maxTokensLimit) {
+      setMaxTokens(n => n === null ? null : Math.min(n, maxTokensLimit));
+    }
+  }, [minTemperature, maxTemperature, maxTokensLimit]);
+
+  // Company pages come from the first LinkedIn account selected for posting
+  const linkedinAuthorAccountId = selectedAccountIds('linkedin')[0];
+  useEffect(() => {
+    if (linkedinAuthorAccountId) {
+      fetchLinkedInAuthors(linkedinAuthorAccountId);
+    } else {
+      setLinkedinAuthors([]);
+      setLinkedinAuthor('');
+    }
+  }, [linkedinAuthorAccountId]);
+
+  const fetchLinkedInAuthors = async (accountId: string) => {
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/social/linkedin/authors?accountId=${accountId}`, { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setLinkedinAuthors(data.authors);
+        // Forget a page this account can't post as
+        setLinkedinAuthor(prev => data.authors.some((author: PostAuthor) => author.id === prev) ? prev : '');
+      }
+    } catch (err) {
+      console.error('Error fetching LinkedIn authors:', err);
+    }
+  };
+
   const fetchRecentRequests = async () => {
     try {
       const backendUrl = getBackendUrl();
@@ -154,6 +419,165 @@ export function AIGenerator() {
     }
   };
 
+  const fetchMediaLibrary = async () => {
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/media?limit=24`, { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setMediaLibrary(data.assets);
+      }
+    } catch (err) {
+      console.error('Error fetching media library:', err);
+    }
+  };
+
+  // Re-check weighted tweet lengths on the server shortly after the user stops typing
+  useEffect(() => {
+    if (threadTexts.length === 0) {
+      setThreadChecks([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      fetchThreadPreview({ segments: threadTexts })
+        .then(data => setThreadChecks(data.segments))
+        .catch(err => console.error('Error checking thread:', err));
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [threadTexts]);
+
+  // Re-validate adapted variants against each platform's limits as they are edited
+  useEffect(() => {
+    const platforms = Object.keys(platformVariants) as SocialPlatform[];
+    if (platforms.length === 0) {
+      setVariantChecks([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const backendUrl = getBackendUrl();
+        const res = await fetch(`${backendUrl}/api/social/validate`, {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            content: '',
+            platform: platforms.join(','),
+            mediaUrls: attachedMedia.map(m => m.url),
+            contentWarning,
+            variants: platformVariants,
+          }),
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setVariantChecks(data.results);
+        }
+      } catch (err) {
+        console.error('Error validating variants:', err);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [platformVariants, attachedMedia, contentWarning]);
+
+  // Ask the AI for a version of the post tailored to each platform
+  const handleAdaptForPlatforms = async () => {
+    if (!response || typeof response.content !== 'string') return;
+
+    setAdapting(true);
+    setError('');
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/ai/adapt`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content: response.content,
+          // Twitter and LinkedIn always, other platforms once connected
+          platform: (Object.keys(PLATFORM_NAMES) as SocialPlatform[])
+            .filter(platform => platform === 'twitter' || platform === 'linkedin' || platformConnected[platform])
+            .join(','),
+          provider: selectedProvider,
+          options: { model: selectedModel || undefined },
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to adapt content');
+      }
+
+      const data = await res.json();
+      const variants: Partial<Record<SocialPlatform, string>> = {};
+      for (const variant of data.variants) {
+        variants[variant.platform as SocialPlatform] = variant.content;
+      }
+      setPlatformVariants(variants);
+      setVariantChecks(data.variants.map((variant: { validation: PlatformValidation }) => variant.validation));
+      setBudgetWarning(data.budgetWarning || null);
+      fetchRecentRequests();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setAdapting(false);
+    }
+  };
+
+  const fetchThreadPreview = async (body: { text?: string; segments?: string[] }) => {
+    const backendUrl = getBackendUrl();
+    const res = await fetch(`${backendUrl}/api/social/twitter/thread/preview`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!res.ok) {
+      const errorData = await res.json();
+      throw new Error(errorData.error || 'Failed to split thread');
+    }
+
+    return res.json() as Promise<{ segments: TweetCheck[]; valid: boolean; maxTweets: number }>;
+  };
+
+  // Split generated text into editable tweets
+  const loadThread = async (text: string) => {
+    try {
+      const data = await fetchThreadPreview({ text });
+      setThreadTexts(data.segments.map(segment => segment.text));
+      setThreadChecks(data.segments);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const updateThreadSegment = (index: number, text: string) => {
+    setThreadTexts(prev => prev.map((segment, i) => (i === index ? text : segment)));
+  };
+
+  const removeThreadSegment = (index: number) => {
+    setThreadTexts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addThreadSegment = (index: number) => {
+    setThreadTexts(prev => [...prev.slice(0, index + 1), '', ...prev.slice(index + 1)]);
+  };
+
+  // Twitter accepts up to 4 images per tweet
+  const toggleAttachedMedia = (asset: MediaAsset) => {
+    setAttachedMedia(prev => {
+      if (prev.some(m => m.id === asset.id)) {
+        return prev.filter(m => m.id !== asset.id);
+      }
+      return prev.length >= 4 ? prev : [...prev, asset];
+    });
+  };
+
   const fetchCanvaTemplates = async () => {
     try {
       const backendUrl = getBackendUrl();
@@ -181,6 +605,12 @@ export function AIGenerator() {
     setLoading(true);
     setError('');
     setResponse(null);
+    setComparison(null);
+    setBudgetWarning(null);
+    setImageCaption('');
+    setLinkedInSuccess('');
+    setThreadTexts([]);
+    setPlatformVariants({});
 
     try {
       const backendUrl = getBackendUrl();
@@ -189,23 +619,45 @@ export function AIGenerator() {
       const systemContext = contentType === 'text' 
         ? 'Generate a social media post that is ready to publish directly. Return ONLY the post content with no additional formatting, explanations, quotes, or meta-commentary. Do not include phrases like "Here\'s a post" or "Caption:" or wrap the content in quotes. Do not use quotation marks around the text. The output should be the exact text that will be posted to social media without any surrounding quotes or formatting.'
         : '';
+
+      const threadContext = contentType === 'text' && threadMode && !compareMode
+        ? '\n\nWrite it as a Twitter thread. Keep every tweet under 280 characters and put a line containing only --- between tweets. Do not number the tweets.'
+        : '';
       
       // Combine system context with user context
-      const finalContext = systemContext + (context ? `\n\nAdditional context: ${context}` : '');
+      const finalContext = systemContext + threadContext + (context ? `\n\nAdditional context: ${context}` : '');
+
+      // Models without a system prompt get the context as part of the prompt instead
+      const useSystemPrompt = selectedModelData?.supportsSystemPrompt !== false;
       
+      const requestBody = {
+        provider: selectedProvider,
+        contentType,
+        prompt: !useSystemPrompt && finalContext ? `${finalContext}\n\n${prompt}` : prompt,
+        context: useSystemPrompt ? finalContext || undefined : undefined,
+        options: {
+          model: selectedModel || undefined,
+          // maxTokens only when set: Gemini 2.5 counts thinking against it, so a fixed default truncates answers
+          ...(contentType === 'text' ? { temperature, ...(maxTokens ? { maxTokens } : {}) } : {}),
+        }
+      };
+
+      if (compareMode && contentType === 'text') {
+        await runComparison(requestBody);
+        return;
+      }
+
+      // Text is streamed so long posts render progressively
+      if (contentType === 'text') {
+        await streamText(requestBody);
+        return;
+      }
+
       const res = await fetch(`${backendUrl}/api/ai/generate`, {
         method: 'POST',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          provider: selectedProvider,
-          contentType,
-          prompt,
-          context: finalContext || undefined,
-          options: {
-            temperature: 0.7,
-          }
-        })
+        body: JSON.stringify(requestBody)
       });
 
       if (!res.ok) {
@@ -216,8 +668,12 @@ export function AIGenerator() {
       const data = await res.json();
       setResponse(data);
       setCurrentRequestId(data.requestId || null);
+      setBudgetWarning(data.budgetWarning || null);
       // Refresh recent requests after generating new content
       fetchRecentRequests();
+      if (data.contentType === 'image') {
+        fetchMediaLibrary();
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -225,6 +681,134 @@ export function AIGenerator() {
     }
   };
 
+  const streamText = async (requestBody: Record<string, unknown>) => {
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    setStreaming(true);
+    setResponse({ provider: selectedProvider, contentType: 'text', content: '' });
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/ai/generate/stream`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+        signal: abortController.signal,
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to generate content');
+      }
+
+      await readServerSentEvents(res, ({ event, data }) => {
+        if (event === 'token') {
+          setResponse(prev => prev && typeof prev.content === 'string'
+            ? { ...prev, content: prev.content + data.text }
+            : prev);
+        } else if (event === 'done') {
+          setResponse(data);
+          setCurrentRequestId(data.requestId || null);
+          setBudgetWarning(data.budgetWarning || null);
+          fetchRecentRequests();
+          if (threadMode && typeof data.content === 'string') {
+            loadThread(data.content);
+          }
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Failed to generate content');
+        }
+      });
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        setError('Generation cancelled');
+      } else {
+        setError(err.message);
+        setResponse(null);
+      }
+    } finally {
+      streamAbortRef.current = null;
+      setStreaming(false);
+    }
+  };
+
+  const handleCancelStream = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const toggleCompareTarget = (providerId: string) => {
+    setCompareTargets(prev => {
+      if (prev.some(t => t.provider === providerId)) {
+        return prev.filter(t => t.provider !== providerId);
+      }
+      const defaultModel = providers
+        .find(p => p.id === providerId)
+        ?.models.find(m => m.contentTypes.includes('text'));
+      return [...prev, { provider: providerId, model: defaultModel?.id || '' }];
+    });
+  };
+
+  const setCompareTargetModel = (providerId: string, model: string) => {
+    setCompareTargets(prev => prev.map(t => (t.provider === providerId ? { ...t, model } : t)));
+  };
+
+  const runComparison = async (requestBody: { prompt: string; context?: string; options: Record<string, unknown> }) => {
+    const backendUrl = getBackendUrl();
+    const res = await fetch(`${backendUrl}/api/ai/compare`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contentType: 'text',
+        prompt: requestBody.prompt,
+        context: requestBody.context,
+        options: { ...requestBody.options, model: undefined },
+        targets: compareTargets.map(t => ({ provider: t.provider, model: t.model || undefined })),
+      })
+    });
+
+    if (!res.ok) {
+      const errorData = await res.json();
+      throw new Error(errorData.error || 'Failed to compare providers');
+    }
+
+    const data = await res.json();
+    setComparison(data);
+    setBudgetWarning(data.budgetWarning || null);
+    fetchRecentRequests();
+  };
+
+  // Vote for the best output; the winner becomes the current response so it can be posted or scheduled
+  const handlePickWinner = async (result: ComparisonResult) => {
+    if (!comparison || !result.requestId) return;
+
+    setVotingFor(result.requestId);
+    setError('');
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/ai/compare/${comparison.groupId}/winner`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: result.requestId })
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to record winner');
+      }
+
+      setComparison({ ...comparison, winnerId: result.requestId });
+      setResponse({ provider: result.provider, contentType: 'text', content: result.content || '', model: result.model });
+      setCurrentRequestId(result.requestId);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setVotingFor(null);
+    }
+  };
+
   const handlePostToTwitter = async () => {
     if (!response || response.contentType !== 'text' || typeof response.content !== 'string') {
       setError('Only text content can be posted to Twitter');
@@ -247,7 +831,9 @@ export function AIGenerator() {
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          text: response.content,
+          text: platformVariants.twitter || response.content,
+          mediaUrls: attachedMedia.map(m => m.url),
+          accountIds: selectedAccountIds('twitter'),
           generationRequestId: currentRequestId,
         }),
       });
@@ -268,9 +854,68 @@ export function AIGenerator() {
     }
   };
 
+  // Images go on the first tweet of the thread
+  const handlePostThread = async () => {
+    if (!twitterStatus.isConnected) {
+      setError('Please authorize Twitter in your Profile page first');
+      return;
+    }
+
+    setPostingToTwitter(true);
+    setError('');
+    setTweetSuccess('');
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/social/twitter/thread`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          segments: threadTexts,
+          mediaUrls: attachedMedia.map(m => m.url),
+          accountIds: selectedAccountIds('twitter'),
+          generationRequestId: currentRequestId,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        const posted = errorData.postedIds?.length
+          ? ` (${errorData.postedIds.length} of ${threadTexts.length} tweets were posted)`
+          : '';
+        throw new Error((errorData.error || 'Failed to post thread') + posted);
+      }
+
+      const data = await res.json();
+      setTweetSuccess(data.message || 'Thread posted successfully!');
+      fetchRecentRequests();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPostingToTwitter(false);
+    }
+  };
+
+  // Text posts carry any images attached from the library; image generations are posted with a caption
   const handlePostToLinkedIn = async () => {
-    if (!response || response.contentType !== 'text' || typeof response.content !== 'string') {
-      setError('Only text content can be posted to LinkedIn');
+    if (!response) return;
+
+    let text: string;
+    let mediaUrls: string[];
+
+    if (response.contentType === 'image' && Array.isArray(response.content)) {
+      if (!imageCaption.trim()) {
+        setError('Please add a caption for the image');
+        return;
+      }
+      text = imageCaption;
+      mediaUrls = response.content;
+    } else if (response.contentType === 'text' && typeof response.content === 'string') {
+      text = platformVariants.linkedin || response.content;
+      mediaUrls = attachedMedia.map(m => m.url);
+    } else {
+      setError('Only text and images can be posted to LinkedIn');
       return;
     }
 
@@ -290,7 +935,10 @@ export function AIGenerator() {
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          text: response.content,
+          text,
+          mediaUrls,
+          accountIds: selectedAccountIds('linkedin'),
+          authorUrn: linkedinAuthor || undefined,
           generationRequestId: currentRequestId,
         }),
       });
@@ -311,6 +959,95 @@ export function AIGenerator() {
     }
   };
 
+  const handlePostToMastodon = async () => {
+    if (!response || response.contentType !== 'text' || typeof response.content !== 'string') {
+      setError('Only text content can be posted to Mastodon');
+      return;
+    }
+
+    if (!mastodonStatus.isConnected) {
+      setError('Please authorize Mastodon in your Profile page first');
+      return;
+    }
+
+    setPostingToMastodon(true);
+    setError('');
+    setMastodonSuccess('');
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/social/mastodon/post`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: platformVariants.mastodon || response.content,
+          mediaUrls: attachedMedia.map(m => m.url),
+          contentWarning: contentWarning.trim() || undefined,
+          accountIds: selectedAccountIds('mastodon'),
+          generationRequestId: currentRequestId,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to post to Mastodon');
+      }
+
+      const data = await res.json();
+      setMastodonSuccess(data.message || 'Posted to Mastodon successfully!');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPostingToMastodon(false);
+    }
+  };
+
+  // Posts the thread when one is being edited, otherwise a single post
+  const handlePostToBluesky = async () => {
+    if (!response || response.contentType !== 'text' || typeof response.content !== 'string') {
+      setError('Only text content can be posted to Bluesky');
+      return;
+    }
+
+    if (!blueskyStatus.isConnected) {
+      setError('Please connect Bluesky in your Profile page first');
+      return;
+    }
+
+    setPostingToBluesky(true);
+    setError('');
+    setBlueskySuccess('');
+
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/social/bluesky/post`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: platformVariants.bluesky || response.content,
+          threadSegments: threadTexts.length > 0 ? threadTexts : undefined,
+          mediaUrls: attachedMedia.map(m => m.url),
+          accountIds: selectedAccountIds('bluesky'),
+          generationRequestId: currentRequestId,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to post to Bluesky');
+      }
+
+      const data = await res.json();
+      setBlueskySuccess(data.message || 'Posted to Bluesky successfully!');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPostingToBluesky(false);
+    }
+  };
+
   const handleCreateCanvaDesign = async () => {
     if (!response || response.contentType !== 'text' || typeof response.content !== 'string') {
       setError('Only text content can be used to create Canva designs');
@@ -373,14 +1110,8 @@ export function AIGenerator() {
       return;
     }
 
-    // Validate platform availability
-    if ((schedulePlatform === 'twitter' || schedulePlatform === 'both') && !twitterStatus.isConnected) {
-      setError('Please authorize Twitter in your Profile page first');
-      return;
-    }
-
-    if ((schedulePlatform === 'linkedin' || schedulePlatform === 'both') && !linkedinStatus.isConnected) {
-      setError('Please authorize LinkedIn in your Profile page first');
+    if (scheduleTargets.length === 0) {
+      setError('Please select at least one account');
       return;
     }
 
@@ -391,6 +1122,17 @@ export function AIGenerator() {
     try {
       const scheduledFor = new Date(`${scheduleDate}T${scheduleTime}`);
       const backendUrl = getBackendUrl();
+      const content = response.content;
+
+      // One variant per platform, using the adapted text where there is one; every selected account on the platform publishes it
+      const variants = scheduleTargets.map(platform => ({
+        platform,
+        content: platformVariants[platform] || content,
+        mediaUrls: attachedMedia.map(m => m.url),
+        threadSegments: THREAD_PLATFORMS.includes(platform) ? threadTexts : [],
+        contentWarning: platform === 'mastodon' ? contentWarning.trim() || null : null,
+        authorUrn: platform === 'linkedin' ? linkedinAuthor || null : null,
+      }));
       
       const res = await fetch(`${backendUrl}/api/schedule`, {
         method: 'POST',
@@ -398,9 +1140,11 @@ export function AIGenerator() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           content: response.content,
-          platform: schedulePlatform,
+          platform: scheduleTargets.join(','),
           scheduledFor: scheduledFor.toISOString(),
           generationRequestId: currentRequestId,
+          variants,
+          accountIds: scheduleAccountIds,
         }),
       });
 
@@ -420,7 +1164,58 @@ export function AIGenerator() {
     }
   };
 
+  // "Posting as" line; with several accounts on the platform, a checkbox for each instead
+  const renderPostingAs = (platform: SocialPlatform, className: string) => {
+    const accounts = platformAccounts[platform];
+    if (accounts.length <= 1) {
+      return (
+        <p className={className}>
+          Posting as: <strong>{accounts[0] ? accountLabel(platform, accounts[0]) : ''}</strong>
+        </p>
+      );
+    }
+
+    const selected = selectedAccountIds(platform);
+    return (
+      <div className={`${className} account-picker`}>
+        Posting as:
+        {accounts.map(account => (
+          <label key={account.id} className="account-option">
+            <input
+              type="checkbox"
+              checked={selected.includes(account.id)}
+              onChange={(e) => toggleAccount(platform, account.id, e.target.checked)}
+            />
+            {accountLabel(platform, account)}
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  // Lets LinkedIn posts go out as a company page; shown only when the account administers one
+  const renderLinkedInAuthorPicker = () => {
+    if (linkedinAuthors.length <= 1) return null;
+
+    return (
+      <select
+        className="linkedin-author-select"
+        value={linkedinAuthor}
+        onChange={(e) => setLinkedinAuthor(e.target.value)}
+      >
+        {linkedinAuthors.map(author => (
+          <option key={author.id} value={author.type === 'person' ? '' : author.id}>
+            {author.type === 'person' ? `👤 ${author.name} (personal profile)` : `🏢 ${author.name}`}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
   const selectedProviderData = providers.find(p => p.id === selectedProvider);
+  const availableModels = selectedProviderData?.models.filter(m => m.contentTypes.includes(contentType)) || [];
+  const selectedModelData = availableModels.find(m => m.id === selectedModel);
+  const temperatureRange = optionLimits.temperature;
 
   return (
     <div className="ai-generator-container">
@@ -489,6 +1284,113 @@ export function AIGenerator() {
           </div>
         </div>
 
+        {contentType === 'text' && (
+          <div className="form-group">
+            <label className="compare-toggle">
+              <input
+                type="checkbox"
+                checked={compareMode}
+                onChange={(e) => setCompareMode(e.target.checked)}
+              />
+              <span>Compare providers side by side</span>
+            </label>
+            {!compareMode && (
+              <label className="compare-toggle">
+                <input
+                  type="checkbox"
+                  checked={threadMode}
+                  onChange={(e) => setThreadMode(e.target.checked)}
+                />
+                <span>Generate as a Twitter thread</span>
+              </label>
+            )}
+            {compareMode && (
+              <div className="compare-targets">
+                {providers.filter(p => p.supports.includes('text')).map(provider => {
+                  const target = compareTargets.find(t => t.provider === provider.id);
+                  return (
+                    <div key={provider.id} className="compare-target">
+                      <label className="radio-label">
+                        <input
+                          type="checkbox"
+                          checked={!!target}
+                          onChange={() => toggleCompareTarget(provider.id)}
+                        />
+                        <span>{provider.name}</span>
+                      </label>
+                      {target && (
+                        <select
+                          value={target.model}
+                          onChange={(e) => setCompareTargetModel(provider.id, e.target.value)}
+                        >
+                          {provider.models.filter(m => m.contentTypes.includes('text')).map(model => (
+                            <option key={model.id} value={model.id}>
+                              {model.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!(compareMode && contentType === 'text') && availableModels.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="model">Model</label>
+            <select
+              id="model"
+              value={selectedModel}
+              onChange={(e) => setSelectedModel(e.target.value)}
+            >
+              {availableModels.map(model => (
+                <option key={model.id} value={model.id}>
+                  {model.name}
+                </option>
+              ))}
+            </select>
+            {selectedModelData?.maxTokens && (
+              <p className="model-capabilities">
+                Up to {selectedModelData.maxTokens.toLocaleString()} output tokens
+                {selectedModelData.supportsImages && ' · Accepts images'}
+                {selectedModelData.supportsSystemPrompt === false && ' · No system prompt'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {contentType === 'text' && (
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="temperature">Temperature: {temperature.toFixed(1)}</label>
+              <input
+                id="temperature"
+                type="range"
+                min={temperatureRange.min}
+                max={temperatureRange.max}
+                step={0.1}
+                value={temperature}
+                onChange={(e) => setTemperature(Number(e.target.value))}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="maxTokens">Max Tokens</label>
+              <input
+                id="maxTokens"
+                type="number"
+                min={1}
+                max={maxTokensLimit}
+                placeholder="Model default"
+                value={maxTokens ?? ''}
+                onChange={(e) => setMaxTokens(e.target.value ? Number(e.target.value) : null)}
+              />
+            </div>
+          </div>
+        )}
+
         <div className="form-group">
           <label htmlFor="context">Context (Optional)</label>
           <textarea
@@ -516,10 +1418,19 @@ export function AIGenerator() {
           <button 
             type="submit" 
             className="generate-button"
-            disabled={loading || !selectedProvider}
+            disabled={loading || !selectedProvider || (compareMode && contentType === 'text' && compareTargets.length < 2)}
           >
-            {loading ? 'Generating...' : 'Generate'}
+            {loading ? 'Generating...' : compareMode && contentType === 'text' ? 'Compare' : 'Generate'}
           </button>
+          {streaming && (
+            <button
+              type="button"
+              className="cancel-stream-button"
+              onClick={handleCancelStream}
+            >
+              Stop
+            </button>
+          )}
           <button
             type="button"
             className="clear-button"
@@ -527,6 +1438,8 @@ export function AIGenerator() {
               setPrompt('');
               setContext('');
               setResponse(null);
+              setComparison(null);
+              setAttachedMedia([]);
               setError('');
               setTweetSuccess('');
               setLinkedInSuccess('');
@@ -549,33 +1462,187 @@ export function AIGenerator() {
         </div>
       )}
 
+      {budgetWarning && (
+        <div className="budget-warning">
+          ⚠️ {budgetWarning}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="response-container">
+          <h3>Comparison</h3>
+          <div className="compare-results">
+            {comparison.results.map((result, index) => {
+              const isWinner = !!result.requestId && result.requestId === comparison.winnerId;
+              return (
+                <div key={result.requestId || index} className={`compare-card ${isWinner ? 'winner' : ''}`}>
+                  <div className="response-meta">
+                    <span className="badge">{providers.find(p => p.id === result.provider)?.name || result.provider}</span>
+                    {result.model && <span className="badge">{result.model}</span>}
+                    {isWinner && <span className="badge winner-badge">🏆 Winner</span>}
+                  </div>
+                  {result.error ? (
+                    <div className="error-message">❌ {result.error}</div>
+                  ) : (
+                    <>
+                      <div className="response-text">{result.content}</div>
+                      {result.metrics && (
+                        <p className="compare-metrics">
+                          {(result.metrics.responseTimeMs / 1000).toFixed(1)}s · ${result.metrics.estimatedCost.toFixed(4)}
+                        </p>
+                      )}
+                      <button
+                        type="button"
+                        className="pick-winner-button"
+                        onClick={() => handlePickWinner(result)}
+                        disabled={!result.requestId || votingFor !== null || isWinner}
+                      >
+                        {votingFor === result.requestId ? 'Saving...' : isWinner ? 'Picked' : 'Pick winner'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {response && (
         <div className="response-container">
           <h3>Response</h3>
           <div className="response-meta">
             <span className="badge">{response.provider}</span>
+            {response.requestedProvider && response.requestedProvider !== response.provider && (
+              <span className="badge fallback-badge" title={`${response.requestedProvider} was unavailable`}>
+                fallback from {response.requestedProvider}
+              </span>
+            )}
             {response.model && <span className="badge">{response.model}</span>}
             <span className="badge">{response.contentType}</span>
           </div>
           
           {response.contentType === 'text' && typeof response.content === 'string' && (
             <>
-              <div className="response-text">
+              <div className={`response-text ${streaming ? 'streaming' : ''}`}>
                 {response.content}
               </div>
+
+              {!streaming && attachedMedia.length > 0 && (
+                <div className="attached-media">
+                  <span className="attached-media-label">Attached:</span>
+                  {attachedMedia.map(asset => (
+                    <button
+                      key={asset.id}
+                      type="button"
+                      className="attached-media-item"
+                      onClick={() => toggleAttachedMedia(asset)}
+                      title="Remove from post"
+                    >
+                      <img src={resolveMediaUrl(asset.url)} alt={asset.prompt || 'Attached image'} />
+                    </button>
+                  ))}
+                </div>
+              )}
               
-              {twitterStatus.isConnected && (
-                <div className="twitter-post-section">
-                  <p className="twitter-account-info">
-                    Posting as: <strong>@{twitterStatus.username}</strong>
-                  </p>
+              {!streaming && (
+                <div className="platform-variants">
                   <button
-                    className="twitter-post-button"
-                    onClick={handlePostToTwitter}
-                    disabled={postingToTwitter}
+                    type="button"
+                    className="adapt-button"
+                    onClick={handleAdaptForPlatforms}
+                    disabled={adapting}
                   >
-                    {postingToTwitter ? '🐦 Posting...' : '🐦 Post to Twitter'}
+                    {adapting ? '✨ Adapting...' : '✨ Adapt for each platform'}
                   </button>
+                  {(Object.keys(platformVariants) as SocialPlatform[]).map(platform => {
+                    const check = variantChecks.find(c => c.platform === platform);
+                    return (
+                      <div key={platform} className={`platform-variant ${check && !check.valid ? 'invalid' : ''}`}>
+                        <label>
+                          {PLATFORM_ICONS[platform]} {PLATFORM_NAMES[platform]}
+                          {check && <span className="platform-variant-length">{check.length} characters</span>}
+                        </label>
+                        <textarea
+                          value={platformVariants[platform]}
+                          onChange={(e) => setPlatformVariants(prev => ({ ...prev, [platform]: e.target.value }))}
+                          rows={platform === 'linkedin' ? 6 : 3}
+                        />
+                        {check?.errors.map(message => (
+                          <p key={message} className="platform-variant-error">{message}</p>
+                        ))}
+                        {check?.warnings.map(message => (
+                          <p key={message} className="platform-variant-warning">{message}</p>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {!streaming && threadTexts.length > 0 && (
+                <div className="thread-editor">
+                  <h4>Thread ({threadTexts.length} tweets)</h4>
+                  {threadTexts.map((text, index) => {
+                    const check = threadChecks[index];
+                    return (
+                      <div key={index} className={`thread-segment ${check && !check.valid ? 'invalid' : ''}`}>
+                        <textarea
+                          value={text}
+                          onChange={(e) => updateThreadSegment(index, e.target.value)}
+                          rows={3}
+                        />
+                        <div className="thread-segment-footer">
+                          <span className="thread-segment-count">
+                            {check ? `${check.length}/280` : ''}
+                            {check?.error && ` · ${check.error}`}
+                          </span>
+                          <button type="button" onClick={() => addThreadSegment(index)}>
+                            + Add below
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeThreadSegment(index)}
+                            disabled={threadTexts.length === 1}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {!streaming && twitterStatus.isConnected && (
+                <div className="twitter-post-section">
+                  {renderPostingAs('twitter', 'twitter-account-info')}
+                  {threadTexts.length > 0 ? (
+                    <button
+                      className="twitter-post-button"
+                      onClick={handlePostThread}
+                      disabled={postingToTwitter || selectedAccountIds('twitter').length === 0 || threadChecks.some(check => !check.valid)}
+                    >
+                      {postingToTwitter ? '🐦 Posting...' : `🐦 Post Thread (${threadTexts.length} tweets)`}
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        className="twitter-post-button"
+                        onClick={handlePostToTwitter}
+                        disabled={postingToTwitter || selectedAccountIds('twitter').length === 0}
+                      >
+                        {postingToTwitter ? '🐦 Posting...' : '🐦 Post to Twitter'}
+                      </button>
+                      <button
+                        type="button"
+                        className="thread-split-button"
+                        onClick={() => loadThread(platformVariants.twitter || response.content as string)}
+                      >
+                        🧵 Edit as thread
+                      </button>
+                    </>
+                  )}
                   {tweetSuccess && (
                     <div className="tweet-success">
                       ✅ {tweetSuccess}
@@ -584,15 +1651,14 @@ export function AIGenerator() {
                 </div>
               )}
 
-              {linkedinStatus.isConnected && (
+              {!streaming && linkedinStatus.isConnected && (
                 <div className="linkedin-post-section">
-                  <p className="linkedin-account-info">
-                    Posting as: <strong>{linkedinStatus.username}</strong>
-                  </p>
+                  {renderPostingAs('linkedin', 'linkedin-account-info')}
+                  {renderLinkedInAuthorPicker()}
                   <button
                     className="linkedin-post-button"
                     onClick={handlePostToLinkedIn}
-                    disabled={postingToLinkedIn}
+                    disabled={postingToLinkedIn || selectedAccountIds('linkedin').length === 0}
                   >
                     {postingToLinkedIn ? '💼 Posting...' : '💼 Post to LinkedIn'}
                   </button>
@@ -604,11 +1670,57 @@ export function AIGenerator() {
                 </div>
               )}
 
-              {(() => {
-                const shouldShowSchedule = twitterStatus.isConnected || linkedinStatus.isConnected;
+              {!streaming && mastodonStatus.isConnected && (
+                <div className="mastodon-post-section">
+                  {renderPostingAs('mastodon', 'mastodon-account-info')}
+                  <input
+                    type="text"
+                    className="content-warning-input"
+                    placeholder="Content warning (optional)"
+                    value={contentWarning}
+                    onChange={(e) => setContentWarning(e.target.value)}
+                  />
+                  <button
+                    className="mastodon-post-button"
+                    onClick={handlePostToMastodon}
+                    disabled={postingToMastodon || selectedAccountIds('mastodon').length === 0}
+                  >
+                    {postingToMastodon ? '🐘 Posting...' : '🐘 Post to Mastodon'}
+                  </button>
+                  {mastodonSuccess && (
+                    <div className="mastodon-success">
+                      ✅ {mastodonSuccess}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!streaming && blueskyStatus.isConnected && (
+                <div className="bluesky-post-section">
+                  {renderPostingAs('bluesky', 'bluesky-account-info')}
+                  <button
+                    className="bluesky-post-button"
+                    onClick={handlePostToBluesky}
+                    disabled={postingToBluesky || selectedAccountIds('bluesky').length === 0 || (threadTexts.length > 0 && threadChecks.some(check => !check.valid))}
+                  >
+                    {postingToBluesky
+                      ? '🦋 Posting...'
+                      : threadTexts.length > 0
+                        ? `🦋 Post Thread to Bluesky (${threadTexts.length})`
+                        : '🦋 Post to Bluesky'}
+                  </button>
+                  {blueskySuccess && (
+                    <div className="bluesky-success">
+                      ✅ {blueskySuccess}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!streaming && (() => {
+                const shouldShowSchedule = Object.values(platformConnected).some(Boolean);
                 console.log('Schedule button check:', {
-                  twitterStatus,
-                  linkedinStatus,
+                  platformConnected,
                   shouldShowSchedule
                 });
                 return shouldShowSchedule;
@@ -619,6 +1731,8 @@ export function AIGenerator() {
                       className="schedule-button"
                       onClick={() => {
                         setShowScheduleModal(true);
+                        // Start from the accounts picked for posting now
+                        setScheduleAccountIds((Object.keys(platformAccounts) as SocialPlatform[]).flatMap(selectedAccountIds));
                         setScheduleSuccess('');
                         setError('');
                       }}
@@ -630,17 +1744,29 @@ export function AIGenerator() {
                       <h4>Schedule Your Post</h4>
                       <div className="schedule-form">
                         <div className="form-group">
-                          <label>Platform</label>
-                          <select 
-                            value={schedulePlatform} 
-                            onChange={(e) => setSchedulePlatform(e.target.value as any)}
-                            className="schedule-select"
-                          >
-                            {twitterStatus.isConnected && <option value="twitter">Twitter</option>}
-                            {linkedinStatus.isConnected && <option value="linkedin">LinkedIn</option>}
-                            {twitterStatus.isConnected && linkedinStatus.isConnected && <option value="both">Both</option>}
-                          </select>
+                          <label>Accounts</label>
+                          <div className="schedule-platforms">
+                            {(Object.keys(platformAccounts) as SocialPlatform[]).flatMap(platform =>
+                              platformAccounts[platform].map(account => (
+                                <label key={account.id} className="schedule-platform-option">
+                                  <input
+                                    type="checkbox"
+                                    checked={scheduleAccountIds.includes(account.id)}
+                                    onChange={(e) => setScheduleAccountIds(prev => e.target.checked
+                                      ? [...prev, account.id]
+                                      : prev.filter(id => id !== account.id))}
+                                  />
+                                  {PLATFORM_ICONS[platform]} {accountLabel(platform, account)}
+                                </label>
+                              )))}
+                          </div>
                         </div>
+                        {scheduleTargets.includes('linkedin') && linkedinAuthors.length > 1 && (
+                          <div className="form-group">
+                            <label>LinkedIn author</label>
+                            {renderLinkedInAuthorPicker()}
+                          </div>
+                        )}
                         <div className="form-group">
                           <label>Date</label>
                           <input
@@ -666,7 +1792,7 @@ export function AIGenerator() {
                           <button
                             className="schedule-confirm-button"
                             onClick={handleSchedulePost}
-                            disabled={scheduling || !scheduleDate || !scheduleTime}
+                            disabled={scheduling || !scheduleDate || !scheduleTime || scheduleTargets.length === 0}
                           >
                             {scheduling ? '📅 Scheduling...' : '📅 Schedule'}
                           </button>
@@ -689,7 +1815,7 @@ export function AIGenerator() {
                 </div>
               )}
 
-              {canvaStatus.isConnected && (
+              {!streaming && canvaStatus.isConnected && (
                 <div className="canva-design-section">
                   {!showTemplateSelector ? (
                     <button
@@ -745,15 +1871,41 @@ export function AIGenerator() {
           {response.contentType === 'image' && Array.isArray(response.content) && (
             <div className="response-images">
               {response.content.map((url, idx) => (
-                <img key={idx} src={url} alt={`Generated ${idx + 1}`} />
+                <img key={idx} src={resolveMediaUrl(url)} alt={`Generated ${idx + 1}`} />
               ))}
             </div>
           )}
 
+          {response.contentType === 'image' && Array.isArray(response.content) && linkedinStatus.isConnected && (
+            <div className="linkedin-post-section">
+              {renderPostingAs('linkedin', 'linkedin-account-info')}
+              {renderLinkedInAuthorPicker()}
+              <textarea
+                className="image-caption"
+                value={imageCaption}
+                onChange={(e) => setImageCaption(e.target.value)}
+                placeholder="Write a caption for this image..."
+                rows={3}
+              />
+              <button
+                className="linkedin-post-button"
+                onClick={handlePostToLinkedIn}
+                disabled={postingToLinkedIn || selectedAccountIds('linkedin').length === 0 || !imageCaption.trim()}
+              >
+                {postingToLinkedIn ? '💼 Posting...' : '💼 Post Image to LinkedIn'}
+              </button>
+              {linkedInSuccess && (
+                <div className="linkedin-success">
+                  ✅ {linkedInSuccess}
+                </div>
+              )}
+            </div>
+          )}
+
           {response.contentType === 'video' && Array.isArray(response.content) && (
             <div className="response-videos">
               {response.content.map((url, idx) => (
-                <video key={idx} src={url} controls />
+                <video key={idx} src={resolveMediaUrl(url)} controls />
               ))}
             </div>
           )}
@@ -790,6 +1942,28 @@ export function AIGenerator() {
             ))}
           </div>
         )}
+
+        <h3 className="media-library-title">🖼️ Media Library</h3>
+        {mediaLibrary.length === 0 ? (
+          <p className="no-requests">Generated images will appear here</p>
+        ) : (
+          <>
+            <p className="media-library-hint">Select images to attach to your next post</p>
+            <div className="media-library">
+              {mediaLibrary.filter(asset => asset.mimeType.startsWith('image/')).map(asset => (
+                <button
+                  key={asset.id}
+                  type="button"
+                  className={`media-library-item ${attachedMedia.some(m => m.id === asset.id) ? 'selected' : ''}`}
+                  onClick={() => toggleAttachedMedia(asset)}
+                  title={asset.prompt || undefined}
+                >
+                  <img src={resolveMediaUrl(asset.url)} alt={asset.prompt || 'Generated image'} loading="lazy" />
+                </button>
+              ))}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import { getBackendUrl } from '../utils/api';
 
 interface ProviderStats {
   provider: string;
+  name: string;
   totalRequests: number;
   totalCost: number;
   totalTokens: number;
@@ -12,6 +13,24 @@ interface ProviderStats {
   avgTokens: number;
   postsCreated: number;
   modelsUsed: Record<string, number>;
+  comparisons: number;
+  wins: number;
+  winRate: number | null;
+}
+
+interface BudgetStatus {
+  scope: 'user' | 'global';
+  monthlyLimit: number;
+  spent: number;
+  remaining: number;
+  warning: boolean;
+  exceeded: boolean;
+  resetsAt: string;
+}
+
+interface BudgetSummary {
+  user: BudgetStatus | null;
+  global: BudgetStatus | null;
 }
 
 interface AnalyticsData {
@@ -22,6 +41,7 @@ interface AnalyticsData {
 
 export function Analytics() {
   const [data, setData] = useState<AnalyticsData | null>(null);
+  const [budget, setBudget] = useState<BudgetSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -40,6 +60,14 @@ export function Analytics() {
 
       const analyticsData = await res.json();
       setData(analyticsData);
+
+      // Budgets are optional, so a failure here shouldn't hide the analytics
+      const budgetRes = await fetch(`${backendUrl}/api/ai/budget`, {
+        credentials: 'include',
+      });
+      if (budgetRes.ok) {
+        setBudget(await budgetRes.json());
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -48,12 +76,7 @@ export function Analytics() {
   };
 
   const getProviderName = (provider: string) => {
-    const names: Record<string, string> = {
-      'openai': 'OpenAI',
-      'azure-openai': 'Azure OpenAI',
-      'gemini': 'Google Gemini',
-    };
-    return names[provider] || provider;
+    return data?.stats.find(stat => stat.provider === provider)?.name || provider;
   };
 
   const formatCost = (cost: number) => {
@@ -65,6 +88,26 @@ export function Analytics() {
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
+  const renderBudget = (status: BudgetStatus) => {
+    const percentUsed = Math.min(100, (status.spent / status.monthlyLimit) * 100);
+    const level = status.exceeded ? 'exceeded' : status.warning ? 'warning' : '';
+
+    return (
+      <div key={status.scope} className={`budget-card ${level}`}>
+        <div className="budget-header">
+          <span className="summary-label">{status.scope === 'user' ? 'Your Monthly Budget' : 'Team Monthly Budget'}</span>
+          <span className="budget-remaining">{formatCost(status.remaining)} left</span>
+        </div>
+        <div className="budget-bar">
+          <div className="budget-bar-fill" style={{ width: `${percentUsed}%` }} />
+        </div>
+        <span className="budget-detail">
+          {formatCost(status.spent)} of {formatCost(status.monthlyLimit)} used · resets {new Date(status.resetsAt).toLocaleDateString()}
+        </span>
+      </div>
+    );
+  };
+
   if (loading) {
     return <div className="analytics-container"><p>Loading analytics...</p></div>;
   }
@@ -102,6 +145,12 @@ export function Analytics() {
             <span className="summary-value">{formatCost(data.totalCost)}</span>
           </div>
         </div>
+        {(budget?.user || budget?.global) && (
+          <div className="budget-section">
+            {budget.user && renderBudget(budget.user)}
+            {budget.global && renderBudget(budget.global)}
+          </div>
+        )}
       </div>
 
       <div className="providers-comparison">
@@ -144,6 +193,13 @@ export function Analytics() {
                   <span className="stat-label">Posts Created</span>
                   <span className="stat-value">{stat.postsCreated}</span>
                 </div>
+
+                <div className="stat-item">
+                  <span className="stat-label">Win Rate</span>
+                  <span className="stat-value" title={`${stat.wins} of ${stat.comparisons} comparisons`}>
+                    {stat.winRate !== null ? `${stat.winRate}%` : '—'}
+                  </span>
+                </div>
               </div>
 
               {Object.keys(stat.modelsUsed).length > 0 && (
@@ -176,6 +232,11 @@ export function Analytics() {
             const mostUsed = data.stats.reduce((max, stat) => 
               stat.totalRequests > max.totalRequests ? stat : max
             );
+            const mostPreferred = data.stats
+              .filter(stat => stat.winRate !== null)
+              .reduce<ProviderStats | null>((best, stat) =>
+                !best || stat.winRate! > best.winRate! ? stat : best
+              , null);
 
             return (
               <>
@@ -205,6 +266,17 @@ export function Analytics() {
                     <span className="insight-detail">{mostUsed.totalRequests} requests</span>
                   </div>
                 </div>
+
+                {mostPreferred && (
+                  <div className="insight-card most-preferred">
+                    <span className="insight-icon">🏆</span>
+                    <div className="insight-content">
+                      <span className="insight-label">Most Preferred</span>
+                      <span className="insight-value">{getProviderName(mostPreferred.provider)}</span>
+                      <span className="insight-detail">{mostPreferred.winRate}% win rate in comparisons</span>
+                    </div>
+                  </div>
+                )}
               </>
             );
           })()}
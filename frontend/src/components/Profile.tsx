@@ -2,16 +2,30 @@ import { useState, useEffect } from 'react';
 import './Profile.css';
 import { getBackendUrl } from '../utils/api';
 
+// One of several accounts the user may have connected on a platform
+interface ConnectedAccount {
+  id: string;
+  nickname: string | null;
+  username: string | null;
+  displayName: string | null;
+  instanceUrl: string | null;
+  tokenStatus: 'ok' | 'expiring' | 'expired';
+  tokenError: string | null;
+  reconnectBy: string | null;
+}
+
 interface TwitterStatus {
   isConnected: boolean;
   username: string | null;
   userId: string | null;
+  accounts: ConnectedAccount[];
 }
 
 interface LinkedInStatus {
   isConnected: boolean;
   username: string | null;
   userId: string | null;
+  accounts: ConnectedAccount[];
 }
 
 interface CanvaStatus {
@@ -19,10 +33,46 @@ interface CanvaStatus {
   userId: string | null;
 }
 
+interface MastodonStatus {
+  isConnected: boolean;
+  username: string | null;
+  instanceUrl: string | null;
+  accounts: ConnectedAccount[];
+}
+
+interface BlueskyStatus {
+  isConnected: boolean;
+  username: string | null;
+  accounts: ConnectedAccount[];
+}
+
+// A device the user is signed in on
+interface UserSession {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+}
+
+function accountLabel(account: ConnectedAccount): string {
+  return account.nickname || account.username || account.displayName || account.id;
+}
+
 export function Profile() {
-  const [twitterStatus, setTwitterStatus] = useState<TwitterStatus>({ isConnected: false, username: null, userId: null });
-  const [linkedinStatus, setLinkedinStatus] = useState<LinkedInStatus>({ isConnected: false, username: null, userId: null });
+  const [twitterStatus, setTwitterStatus] = useState<TwitterStatus>({ isConnected: false, username: null, userId: null, accounts: [] });
+  const [linkedinStatus, setLinkedinStatus] = useState<LinkedInStatus>({ isConnected: false, username: null, userId: null, accounts: [] });
   const [canvaStatus, setCanvaStatus] = useState<CanvaStatus>({ isConnected: false, userId: null });
+  const [mastodonStatus, setMastodonStatus] = useState<MastodonStatus>({ isConnected: false, username: null, instanceUrl: null, accounts: [] });
+  const [mastodonInstance, setMastodonInstance] = useState('');
+  const [blueskyStatus, setBlueskyStatus] = useState<BlueskyStatus>({ isConnected: false, username: null, accounts: [] });
+  const [blueskyHandle, setBlueskyHandle] = useState('');
+  const [blueskyAppPassword, setBlueskyAppPassword] = useState('');
+  const [connectingBluesky, setConnectingBluesky] = useState(false);
+  const [nicknameDrafts, setNicknameDrafts] = useState<Record<string, string>>({});
+  const [atRiskCount, setAtRiskCount] = useState(0);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -33,6 +83,10 @@ export function Profile() {
     fetchTwitterStatus();
     fetchLinkedInStatus();
     fetchCanvaStatus();
+    fetchMastodonStatus();
+    fetchBlueskyStatus();
+    fetchHealth();
+    fetchSessions();
     
     // Check if Twitter was just connected (from OAuth callback)
     const params = new URLSearchParams(window.location.search);
@@ -51,6 +105,15 @@ export function Profile() {
       fetchCanvaStatus();
       window.history.replaceState({}, '', window.location.pathname);
     }
+    if (params.get('mastodon_connected') === 'true') {
+      setSuccess('Mastodon account connected successfully!');
+      fetchMastodonStatus();
+      window.history.replaceState({}, '', window.location.pathname);
+    }
+    if (params.get('mastodon_error')) {
+      setError(`Mastodon authorization failed: ${params.get('mastodon_error')}`);
+      window.history.replaceState({}, '', window.location.pathname);
+    }
   }, []);
 
   const fetchTwitterStatus = async () => {
@@ -100,10 +163,72 @@ export function Profile() {
     }
   };
 
-  const handleConnectTwitter = async () => {
+  const fetchMastodonStatus = async () => {
+    try {
+      const res = await fetch(`${backendUrl}/api/social/mastodon/status`, {
+        credentials: 'include',
+      });
+      
+      if (!res.ok) throw new Error('Failed to fetch Mastodon status');
+      
+      const data = await res.json();
+      setMastodonStatus(data);
+    } catch (err: any) {
+      console.error('Mastodon status error:', err.message);
+    }
+  };
+
+  const fetchBlueskyStatus = async () => {
+    try {
+      const res = await fetch(`${backendUrl}/api/social/bluesky/status`, {
+        credentials: 'include',
+      });
+      
+      if (!res.ok) throw new Error('Failed to fetch Bluesky status');
+      
+      const data = await res.json();
+      setBlueskyStatus(data);
+    } catch (err: any) {
+      console.error('Bluesky status error:', err.message);
+    }
+  };
+
+  // Number of scheduled posts that will fail until an account is reconnected
+  const fetchHealth = async () => {
+    try {
+      const res = await fetch(`${backendUrl}/api/social/health`, {
+        credentials: 'include',
+      });
+
+      if (!res.ok) throw new Error('Failed to check connected accounts');
+
+      const data = await res.json();
+      setAtRiskCount(data.atRisk.length);
+    } catch (err: any) {
+      console.error('Token health error:', err.message);
+    }
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const res = await fetch(`${backendUrl}/api/sessions`, {
+        credentials: 'include',
+      });
+
+      if (!res.ok) throw new Error('Failed to load sessions');
+
+      const data = await res.json();
+      setSessions(data.sessions);
+    } catch (err: any) {
+      console.error('Sessions error:', err.message);
+    }
+  };
+
+  // addAccount makes Twitter ask which account to sign in with instead of reusing the current session
+  const handleConnectTwitter = async (addAccount = false) => {
     setError('');
     try {
-      const res = await fetch(`${backendUrl}/api/social/twitter/connect`, {
+      const res = await fetch(`${backendUrl}/api/social/twitter/connect${addAccount ? '?addAccount=true' : ''}`, {
         credentials: 'include',
       });
 
@@ -167,37 +292,105 @@ export function Profile() {
     }
   };
 
-  const handleDisconnectTwitter = async () => {
+  const handleConnectMastodon = async () => {
+    setError('');
+    if (!mastodonInstance.trim()) {
+      setError('Enter your Mastodon instance, e.g. mastodon.social');
+      return;
+    }
+
+    try {
+      const res = await fetch(`${backendUrl}/api/social/mastodon/connect?instance=${encodeURIComponent(mastodonInstance.trim())}`, {
+        credentials: 'include',
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.details || data.error || 'Failed to initiate Mastodon connection');
+      }
+
+      const data = await res.json();
+      // Redirect to the instance's OAuth page
+      window.location.href = data.authUrl;
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Bluesky signs in with an app password rather than OAuth, so there is no redirect
+  const handleConnectBluesky = async () => {
     setError('');
     setSuccess('');
+    if (!blueskyHandle.trim() || !blueskyAppPassword) {
+      setError('Enter your Bluesky handle and an app password');
+      return;
+    }
+
+    setConnectingBluesky(true);
     try {
-      const res = await fetch(`${backendUrl}/api/social/twitter/disconnect`, {
+      const res = await fetch(`${backendUrl}/api/social/bluesky/login`, {
         method: 'POST',
         credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier: blueskyHandle.trim(), appPassword: blueskyAppPassword }),
       });
 
-      if (!res.ok) throw new Error('Failed to disconnect Twitter');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to connect Bluesky');
 
-      setSuccess('Twitter account disconnected successfully');
-      fetchTwitterStatus();
+      setBlueskyAppPassword('');
+      setSuccess('Bluesky account connected successfully!');
+      fetchBlueskyStatus();
+      fetchHealth();
     } catch (err: any) {
       setError(err.message);
+    } finally {
+      setConnectingBluesky(false);
     }
   };
 
-  const handleDisconnectLinkedIn = async () => {
+  const handleDisconnectAccount = async (platform: string, name: string, account: ConnectedAccount, refresh: () => void) => {
     setError('');
     setSuccess('');
     try {
-      const res = await fetch(`${backendUrl}/api/social/linkedin/disconnect`, {
+      const res = await fetch(`${backendUrl}/api/social/${platform}/disconnect`, {
         method: 'POST',
         credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId: account.id }),
       });
 
-      if (!res.ok) throw new Error('Failed to disconnect LinkedIn');
+      if (!res.ok) throw new Error(`Failed to disconnect ${name}`);
 
-      setSuccess('LinkedIn account disconnected successfully');
-      fetchLinkedInStatus();
+      setSuccess(`${name} account ${accountLabel(account)} disconnected successfully`);
+      refresh();
+      fetchHealth();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSaveNickname = async (account: ConnectedAccount, refresh: () => void) => {
+    setError('');
+    setSuccess('');
+    try {
+      const res = await fetch(`${backendUrl}/api/social/accounts/${account.id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nickname: nicknameDrafts[account.id] ?? '' }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save nickname');
+
+      setNicknameDrafts(prev => {
+        const next = { ...prev };
+        delete next[account.id];
+        return next;
+      });
+      setSuccess('Nickname saved');
+      refresh();
     } catch (err: any) {
       setError(err.message);
     }
@@ -221,10 +414,102 @@ export function Profile() {
     }
   };
 
+  const handleRevokeSession = async (session: UserSession) => {
+    setError('');
+    setSuccess('');
+    try {
+      const res = await fetch(`${backendUrl}/api/sessions/${session.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to sign out session');
+
+      setSuccess(`Signed out ${session.device}`);
+      fetchSessions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    setError('');
+    setSuccess('');
+    try {
+      const res = await fetch(`${backendUrl}/api/sessions`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to sign out other sessions');
+
+      setSuccess(`Signed out ${data.revoked} other ${data.revoked === 1 ? 'session' : 'sessions'}`);
+      fetchSessions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Connected accounts on one platform, each with its nickname and its own Disconnect button
+  const renderAccounts = (platform: string, name: string, accounts: ConnectedAccount[], refresh: () => void, handlePrefix = '@') => (
+    <ul className="account-list">
+      {accounts.map(account => {
+        const draft = nicknameDrafts[account.id];
+        return (
+          <li key={account.id} className="account-row">
+            <div className="account-details">
+              <p className="connected-account">{handlePrefix}{account.username || account.displayName}</p>
+              {account.nickname && <span className="account-nickname">{account.nickname}</span>}
+              {account.tokenStatus !== 'ok' && (
+                <span className={`token-warning ${account.tokenStatus}`} title={account.tokenError || undefined}>
+                  {account.tokenStatus === 'expired'
+                    ? '⚠️ Expired, reconnect'
+                    : `⚠️ Expires ${account.reconnectBy ? new Date(account.reconnectBy).toLocaleDateString() : 'soon'}, reconnect`}
+                </span>
+              )}
+            </div>
+            <div className="account-actions">
+              <input
+                type="text"
+                className="nickname-input"
+                placeholder="Nickname"
+                value={draft ?? account.nickname ?? ''}
+                onChange={(e) => setNicknameDrafts(prev => ({ ...prev, [account.id]: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && draft !== undefined && handleSaveNickname(account, refresh)}
+              />
+              <button
+                className="save-nickname-button"
+                onClick={() => handleSaveNickname(account, refresh)}
+                disabled={draft === undefined}
+              >
+                Save
+              </button>
+              <button 
+                className="disconnect-button"
+                onClick={() => handleDisconnectAccount(platform, name, account, refresh)}
+              >
+                Disconnect
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   if (loading) {
     return <div className="profile-container"><p>Loading...</p></div>;
   }
 
+  const needsReconnect = [
+    ...twitterStatus.accounts.map(account => ({ name: 'Twitter', account })),
+    ...linkedinStatus.accounts.map(account => ({ name: 'LinkedIn', account })),
+    ...mastodonStatus.accounts.map(account => ({ name: 'Mastodon', account })),
+    ...blueskyStatus.accounts.map(account => ({ name: 'Bluesky', account })),
+  ].filter(({ account }) => account.tokenStatus !== 'ok');
+
   return (
     <div className="profile-container">
       <div className="profile-header">
@@ -238,6 +523,14 @@ export function Profile() {
         </div>
       )}
 
+      {needsReconnect.length > 0 && (
+        <div className="message reconnect-banner">
+          ⚠️ Reconnect {needsReconnect.map(({ name, account }) => `${accountLabel(account)} (${name})`).join(', ')} to keep posting
+          {atRiskCount > 0 && ` — ${atRiskCount} scheduled ${atRiskCount === 1 ? 'post' : 'posts'} will fail until you do`}.
+          Signing in to the same account again renews its authorization.
+        </div>
+      )}
+
       {success && (
         <div className="message success-message">
           ✅ {success}
@@ -264,16 +557,16 @@ export function Profile() {
             <div className="authorization-status connected">
               <div className="status-info">
                 <span className="status-badge active">✓ Authorized</span>
-                <p className="connected-account">@{twitterStatus.username}</p>
               </div>
+              {renderAccounts('twitter', 'Twitter', twitterStatus.accounts, fetchTwitterStatus)}
               <p className="status-note">
                 You can now post AI-generated content directly to Twitter from the AI Generator
               </p>
               <button 
-                className="disconnect-button"
-                onClick={handleDisconnectTwitter}
+                className="add-account-button"
+                onClick={() => handleConnectTwitter(true)}
               >
-                Disconnect
+                ➕ Add another Twitter account
               </button>
             </div>
           ) : (
@@ -283,7 +576,7 @@ export function Profile() {
               </p>
               <button 
                 className="connect-button twitter-connect"
-                onClick={handleConnectTwitter}
+                onClick={() => handleConnectTwitter()}
               >
                 🐦 Authorize Twitter
               </button>
@@ -306,16 +599,17 @@ export function Profile() {
             <div className="authorization-status connected">
               <div className="status-info">
                 <span className="status-badge active">✓ Authorized</span>
-                <p className="connected-account">{linkedinStatus.username}</p>
               </div>
+              {renderAccounts('linkedin', 'LinkedIn', linkedinStatus.accounts, fetchLinkedInStatus, '')}
               <p className="status-note">
-                You can now post AI-generated content directly to LinkedIn from the AI Generator
+                You can now post AI-generated content directly to LinkedIn from the AI Generator.
+                To add another account, sign in to it on linkedin.com first.
               </p>
               <button 
-                className="disconnect-button"
-                onClick={handleDisconnectLinkedIn}
+                className="add-account-button"
+                onClick={handleConnectLinkedIn}
               >
-                Disconnect
+                ➕ Add another LinkedIn account
               </button>
             </div>
           ) : (
@@ -333,6 +627,107 @@ export function Profile() {
           )}
         </div>
 
+        <div className="platform-card mastodon-card">
+          <div className="platform-header">
+            <span className="platform-icon">🐘</span>
+            <div className="platform-info">
+              <h4>Mastodon</h4>
+              <p className="platform-description">
+                Allow Buzzalicious to post to your Mastodon account on any instance
+              </p>
+            </div>
+          </div>
+
+          {mastodonStatus.isConnected && (
+            <div className="authorization-status connected">
+              <div className="status-info">
+                <span className="status-badge active">✓ Authorized</span>
+              </div>
+              {renderAccounts('mastodon', 'Mastodon', mastodonStatus.accounts, fetchMastodonStatus)}
+              <p className="status-note">
+                You can now post and schedule AI-generated content to Mastodon from the AI Generator
+              </p>
+            </div>
+          )}
+          <div className={`authorization-status ${mastodonStatus.isConnected ? 'add-account' : 'not-connected'}`}>
+            <p className="status-note">
+              {mastodonStatus.isConnected
+                ? 'Add another account by entering the server it is on'
+                : 'Enter the server your account is on, e.g. mastodon.social'}
+            </p>
+            <input
+              type="text"
+              className="instance-input"
+              placeholder="mastodon.social"
+              value={mastodonInstance}
+              onChange={(e) => setMastodonInstance(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConnectMastodon()}
+            />
+            <button 
+              className="connect-button mastodon-connect"
+              onClick={handleConnectMastodon}
+            >
+              {mastodonStatus.isConnected ? '➕ Add another Mastodon account' : '🐘 Authorize Mastodon'}
+            </button>
+          </div>
+        </div>
+
+        <div className="platform-card bluesky-card">
+          <div className="platform-header">
+            <span className="platform-icon">🦋</span>
+            <div className="platform-info">
+              <h4>Bluesky</h4>
+              <p className="platform-description">
+                Allow Buzzalicious to post to Bluesky on your behalf
+              </p>
+            </div>
+          </div>
+
+          {blueskyStatus.isConnected && (
+            <div className="authorization-status connected">
+              <div className="status-info">
+                <span className="status-badge active">✓ Authorized</span>
+              </div>
+              {renderAccounts('bluesky', 'Bluesky', blueskyStatus.accounts, fetchBlueskyStatus)}
+              <p className="status-note">
+                You can now post and schedule AI-generated content to Bluesky from the AI Generator
+              </p>
+            </div>
+          )}
+          <div className={`authorization-status ${blueskyStatus.isConnected ? 'add-account' : 'not-connected'}`}>
+            <p className="status-note">
+              Create an app password in Bluesky under Settings → Privacy and security → App passwords.
+              Your app password is only used to sign in and is not stored.
+            </p>
+            <input
+              type="text"
+              className="instance-input"
+              placeholder="you.bsky.social"
+              value={blueskyHandle}
+              onChange={(e) => setBlueskyHandle(e.target.value)}
+              autoComplete="username"
+            />
+            <input
+              type="password"
+              className="instance-input"
+              placeholder="xxxx-xxxx-xxxx-xxxx"
+              value={blueskyAppPassword}
+              onChange={(e) => setBlueskyAppPassword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConnectBluesky()}
+              autoComplete="current-password"
+            />
+            <button 
+              className="connect-button bluesky-connect"
+              onClick={handleConnectBluesky}
+              disabled={connectingBluesky}
+            >
+              {connectingBluesky
+                ? '🦋 Connecting...'
+                : blueskyStatus.isConnected ? '➕ Add another Bluesky account' : '🦋 Connect Bluesky'}
+            </button>
+          </div>
+        </div>
+
         <div className="platform-card canva-card">
           <div className="platform-header">
             <span className="platform-icon">🎨</span>
@@ -395,6 +790,41 @@ export function Profile() {
           </div>
         </div>
       </div>
+
+      <div className="social-accounts-section sessions-section">
+        <div className="section-header">
+          <h3>Active Sessions</h3>
+          {sessions.some(session => !session.current) && (
+            <button className="disconnect-button" onClick={handleRevokeOtherSessions}>
+              Sign out all other sessions
+            </button>
+          )}
+        </div>
+
+        <ul className="account-list">
+          {sessions.map(session => (
+            <li key={session.id} className="account-row">
+              <div className="account-details">
+                <p className="connected-account">{session.device}</p>
+                {session.current && <span className="account-nickname">This device</span>}
+              </div>
+              <div className="account-actions">
+                <span className="session-meta">
+                  {session.ip && `${session.ip} · `}
+                  {session.current
+                    ? 'Active now'
+                    : `Last seen ${session.lastSeenAt ? new Date(session.lastSeenAt).toLocaleString() : 'unknown'}`}
+                </span>
+                {!session.current && (
+                  <button className="disconnect-button" onClick={() => handleRevokeSession(session)}>
+                    Sign out
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
     </div>
   );
 }
@@ -1,33 +1,108 @@
 import { useState, useEffect } from 'react';
 import './ScheduledPosts.css';
-import { getBackendUrl } from '../utils/api';
+import { getBackendUrl, resolveMediaUrl } from '../utils/api';
+
+interface ScheduledPostVariant {
+  id: string;
+  platform: 'twitter' | 'linkedin' | 'mastodon' | 'bluesky';
+  content: string;
+  mediaUrls: string[];
+  threadSegments: string[];
+  contentWarning?: string | null;
+  authorUrn?: string | null; // LinkedIn company page the variant posts as
+  account?: { id: string; nickname: string | null; username: string | null; displayName: string | null } | null;
+  status: string;
+  postId?: string | null;
+  threadIds: string[];
+  postedAt?: string | null;
+  error?: string | null;
+  errorKind?: 'retryable' | 'auth' | 'content' | 'permanent' | null;
+  attempts: number;
+  nextAttemptAt?: string | null;
+}
 
 interface ScheduledPost {
   id: string;
   content: string;
   platform: string;
+  variants: ScheduledPostVariant[];
   scheduledFor: string;
   status: string;
-  twitterPostId?: string;
-  twitterPostedAt?: string;
-  twitterError?: string;
-  linkedinPostId?: string;
-  linkedinPostedAt?: string;
-  linkedinError?: string;
   createdAt: string;
 }
 
-export function ScheduledPosts() {
+interface VariantDraft {
+  postId: string;
+  variantId: string;
+  platform: string;
+  text: string; // Thread segments are edited as one text with "---" lines between tweets
+  mediaUrls: string[];
+  contentWarning: string;
+  isThread: boolean;
+}
+
+// A pending variant that will fail unless its account is reconnected first
+interface AtRiskVariant {
+  variantId: string;
+  platform: string;
+  account: string | null;
+  reconnectBy: string | null;
+  reason: string;
+}
+
+const THREAD_SEPARATOR = '\n---\n';
+
+// What the user can do about a failure that won't be retried automatically
+const ERROR_HINTS: Record<string, string> = {
+  auth: 'Reconnect the account in your Profile, then retry.',
+  content: 'The platform rejected this content.',
+};
+
+// The account a variant publishes as; a disconnected account leaves the variant without one
+function getAccountLabel(variant: ScheduledPostVariant): string {
+  const account = variant.account;
+  if (!account) return 'Disconnected account';
+  if (account.nickname) return account.nickname;
+  const handle = account.username || account.displayName || '';
+  return variant.platform === 'linkedin' ? handle : `@${handle}`;
+}
+
+interface ScheduledPostsProps {
+  onOpenProfile?: () => void;
+}
+
+export function ScheduledPosts({ onOpenProfile }: ScheduledPostsProps) {
   const [posts, setPosts] = useState<ScheduledPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [filter, setFilter] = useState<'all' | 'pending' | 'posted' | 'failed' | 'cancelled'>('all');
+  const [filter, setFilter] = useState<'all' | 'pending' | 'retrying' | 'posted' | 'partial' | 'failed' | 'cancelled'>('all');
+  const [draft, setDraft] = useState<VariantDraft | null>(null);
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [atRisk, setAtRisk] = useState<AtRiskVariant[]>([]);
 
   useEffect(() => {
     fetchScheduledPosts();
   }, [filter]);
 
+  const fetchHealth = async () => {
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/social/health`, {
+        credentials: 'include',
+      });
+
+      if (!res.ok) throw new Error('Failed to check connected accounts');
+
+      const data = await res.json();
+      setAtRisk(data.atRisk);
+    } catch (err: any) {
+      console.error('Token health error:', err.message);
+    }
+  };
+
+  // Refreshes the reconnect warnings too, since cancelling or editing posts changes them
   const fetchScheduledPosts = async () => {
+    fetchHealth();
     try {
       setLoading(true);
       const backendUrl = getBackendUrl();
@@ -73,22 +148,100 @@ export function ScheduledPosts() {
     }
   };
 
+  // Publish the post's failed variants again right away, or only the given ones
+  const handleRetry = async (postId: string, variantIds?: string[]) => {
+    setError('');
+    try {
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/schedule/${postId}/retry`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(variantIds ? { variantIds } : {}),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to retry post');
+      }
+
+      fetchScheduledPosts();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const startEditing = (post: ScheduledPost, variant: ScheduledPostVariant) => {
+    const isThread = variant.threadSegments.length > 0;
+    setDraft({
+      postId: post.id,
+      variantId: variant.id,
+      platform: variant.platform,
+      text: isThread ? variant.threadSegments.join(THREAD_SEPARATOR) : variant.content,
+      mediaUrls: variant.mediaUrls,
+      contentWarning: variant.contentWarning || '',
+      isThread,
+    });
+  };
+
+  const handleSaveVariant = async () => {
+    if (!draft) return;
+
+    setSavingDraft(true);
+    setError('');
+
+    try {
+      const segments = draft.text.split(THREAD_SEPARATOR).map(segment => segment.trim()).filter(Boolean);
+      const backendUrl = getBackendUrl();
+      const res = await fetch(`${backendUrl}/api/schedule/${draft.postId}/variants/${draft.variantId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content: draft.isThread ? segments.join('\n\n') : draft.text,
+          threadSegments: draft.isThread ? segments : [],
+          mediaUrls: draft.mediaUrls,
+          ...(draft.platform === 'mastodon' ? { contentWarning: draft.contentWarning.trim() || null } : {}),
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update post');
+      }
+
+      setDraft(null);
+      fetchScheduledPosts();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'pending': return 'status-pending';
+      case 'retrying': return 'status-retrying';
+      case 'processing':
+      case 'publishing': return 'status-processing';
       case 'posted': return 'status-posted';
+      case 'partial': return 'status-partial';
       case 'failed': return 'status-failed';
       case 'cancelled': return 'status-cancelled';
       default: return '';
     }
   };
 
-  const getPlatformIcon = (platform: string) => {
+  const getPlatformIcon = (platform: string): string => {
     switch (platform) {
       case 'twitter': return '🐦';
       case 'linkedin': return '💼';
+      case 'mastodon': return '🐘';
+      case 'bluesky': return '🦋';
       case 'both': return '🐦💼';
-      default: return '📱';
+      // Posts can target a list of platforms, e.g. 'twitter,mastodon'
+      default: return platform.includes(',') ? platform.split(',').map(getPlatformIcon).join('') : '📱';
     }
   };
 
@@ -100,6 +253,8 @@ export function ScheduledPosts() {
     );
   }
 
+  const atRiskById = new Map(atRisk.map(variant => [variant.variantId, variant]));
+
   return (
     <div className="scheduled-posts-container">
       <div className="scheduled-header">
@@ -120,12 +275,24 @@ export function ScheduledPosts() {
         >
           Pending
         </button>
+        <button 
+          className={`filter-tab ${filter === 'retrying' ? 'active' : ''}`}
+          onClick={() => setFilter('retrying')}
+        >
+          Retrying
+        </button>
         <button 
           className={`filter-tab ${filter === 'posted' ? 'active' : ''}`}
           onClick={() => setFilter('posted')}
         >
           Posted
         </button>
+        <button 
+          className={`filter-tab ${filter === 'partial' ? 'active' : ''}`}
+          onClick={() => setFilter('partial')}
+        >
+          Partially Posted
+        </button>
         <button 
           className={`filter-tab ${filter === 'failed' ? 'active' : ''}`}
           onClick={() => setFilter('failed')}
@@ -140,6 +307,18 @@ export function ScheduledPosts() {
         </button>
       </div>
 
+      {atRisk.length > 0 && (
+        <div className="reconnect-banner">
+          ⚠️ {atRisk.length} scheduled {atRisk.length === 1 ? 'post' : 'posts'} will fail unless you reconnect{' '}
+          {[...new Set(atRisk.map(variant => variant.account ? `${variant.account} (${variant.platform})` : `a ${variant.platform} account`))].join(', ')}.
+          {onOpenProfile && (
+            <button className="reconnect-link" onClick={onOpenProfile}>
+              Go to Profile & Accounts
+            </button>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="error-message">
           ❌ {error}
@@ -161,6 +340,20 @@ export function ScheduledPosts() {
                 </span>
               </div>
 
+              {post.variants.length > 1 && (
+                <div className="post-deliveries">
+                  {post.variants.map(variant => (
+                    <span
+                      key={variant.id}
+                      className={`delivery-chip ${getStatusBadgeClass(variant.status)}`}
+                      title={`${getAccountLabel(variant)}: ${variant.status}`}
+                    >
+                      {getPlatformIcon(variant.platform)} {variant.status}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               <div className="post-content">
                 {post.content.length > 200 
                   ? `${post.content.substring(0, 200)}...` 
@@ -174,47 +367,157 @@ export function ScheduledPosts() {
                     {new Date(post.scheduledFor).toLocaleString()}
                   </span>
                 </div>
+              </div>
 
-                {post.status === 'posted' && (
-                  <>
-                    {post.twitterPostedAt && (
-                      <div className="meta-row">
-                        <span className="meta-label">🐦 Posted:</span>
-                        <span className="meta-value">
-                          {new Date(post.twitterPostedAt).toLocaleString()}
+              {post.variants.map(variant => {
+                const isEditing = draft?.variantId === variant.id;
+                return (
+                  <div key={variant.id} className="post-variant">
+                    <div className="post-variant-header">
+                      <span>{getPlatformIcon(variant.platform)}</span>
+                      <span className="post-variant-account">{getAccountLabel(variant)}</span>
+                      {variant.authorUrn && (
+                        <span className="post-variant-account" title={variant.authorUrn}>
+                          as 🏢 company page {variant.authorUrn.split(':').pop()}
                         </span>
+                      )}
+                      <span className={`status-badge ${getStatusBadgeClass(variant.status)}`}>
+                        {variant.status}
+                      </span>
+                      {variant.status === 'pending' && !isEditing && (
+                        <button className="edit-variant-button" onClick={() => startEditing(post, variant)}>
+                          Edit
+                        </button>
+                      )}
+                      {variant.status === 'failed' && post.variants.length > 1 && post.status !== 'processing' && (
+                        <button className="edit-variant-button" onClick={() => handleRetry(post.id, [variant.id])}>
+                          Retry
+                        </button>
+                      )}
+                    </div>
+
+                    {isEditing && draft ? (
+                      <div className="variant-editor">
+                        {draft.platform === 'mastodon' && (
+                          <input
+                            type="text"
+                            placeholder="Content warning (optional)"
+                            value={draft.contentWarning}
+                            onChange={(e) => setDraft({ ...draft, contentWarning: e.target.value })}
+                          />
+                        )}
+                        <textarea
+                          value={draft.text}
+                          onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                          rows={draft.isThread ? 8 : 4}
+                        />
+                        {draft.isThread && (
+                          <p className="variant-editor-hint">Separate posts with a line containing only ---</p>
+                        )}
+                        {draft.mediaUrls.length > 0 && (
+                          <div className="post-media">
+                            {draft.mediaUrls.map(url => (
+                              <button
+                                key={url}
+                                type="button"
+                                className="remove-media-button"
+                                onClick={() => setDraft({ ...draft, mediaUrls: draft.mediaUrls.filter(u => u !== url) })}
+                                title="Remove image"
+                              >
+                                <img src={resolveMediaUrl(url)} alt="Attached" />
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        <div className="variant-editor-actions">
+                          <button onClick={handleSaveVariant} disabled={savingDraft}>
+                            {savingDraft ? 'Saving...' : 'Save'}
+                          </button>
+                          <button onClick={() => setDraft(null)} disabled={savingDraft}>
+                            Cancel
+                          </button>
+                        </div>
                       </div>
+                    ) : (
+                      <>
+                        {variant.contentWarning && (
+                          <div className="post-content-warning">CW: {variant.contentWarning}</div>
+                        )}
+                        {variant.threadSegments.length > 0 ? (
+                          <ol className="post-thread">
+                            {variant.threadSegments.map((segment, index) => (
+                              <li key={index}>{segment}</li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <div className="post-variant-content">{variant.content}</div>
+                        )}
+
+                        {variant.mediaUrls.length > 0 && (
+                          <div className="post-media">
+                            {variant.mediaUrls.map(url => (
+                              <img key={url} src={resolveMediaUrl(url)} alt="Attached" />
+                            ))}
+                          </div>
+                        )}
+                      </>
                     )}
-                    {post.linkedinPostedAt && (
+
+                    {variant.status === 'posted' && variant.postedAt && (
                       <div className="meta-row">
-                        <span className="meta-label">💼 Posted:</span>
+                        <span className="meta-label">Posted:</span>
                         <span className="meta-value">
-                          {new Date(post.linkedinPostedAt).toLocaleString()}
+                          {new Date(variant.postedAt).toLocaleString()}
+                          {variant.threadIds.length > 1 && ` (thread of ${variant.threadIds.length})`}
                         </span>
                       </div>
                     )}
-                  </>
-                )}
 
-                {post.status === 'failed' && (
-                  <>
-                    {post.twitterError && (
+                    {['pending', 'retrying'].includes(variant.status) && atRiskById.has(variant.id) && (
                       <div className="error-row">
-                        <span className="meta-label">🐦 Error:</span>
-                        <span className="error-text">{post.twitterError}</span>
+                        <span className="meta-label">Warning:</span>
+                        <span className="error-text">
+                          {atRiskById.get(variant.id)!.reason}
+                          {atRiskById.get(variant.id)!.reconnectBy &&
+                            ` (${new Date(atRiskById.get(variant.id)!.reconnectBy!).toLocaleString()})`}
+                        </span>
                       </div>
                     )}
-                    {post.linkedinError && (
+
+                    {variant.error && (
                       <div className="error-row">
-                        <span className="meta-label">💼 Error:</span>
-                        <span className="error-text">{post.linkedinError}</span>
+                        <span className="meta-label">Error:</span>
+                        <span className="error-text">
+                          {variant.error}
+                          {variant.status === 'failed' && variant.errorKind && ERROR_HINTS[variant.errorKind] &&
+                            ` ${ERROR_HINTS[variant.errorKind]}`}
+                        </span>
                       </div>
                     )}
-                  </>
-                )}
-              </div>
 
-              {post.status === 'pending' && (
+                    {variant.status === 'retrying' && variant.nextAttemptAt && (
+                      <div className="meta-row">
+                        <span className="meta-label">Next attempt:</span>
+                        <span className="meta-value">
+                          {new Date(variant.nextAttemptAt).toLocaleString()}
+                          {variant.attempts > 0 && ` (${variant.attempts} failed ${variant.attempts === 1 ? 'attempt' : 'attempts'})`}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {['failed', 'partial', 'retrying'].includes(post.status) && (
+                <button 
+                  className="retry-button"
+                  onClick={() => handleRetry(post.id)}
+                >
+                  {post.status === 'partial' ? 'Retry Failed Platforms' : 'Retry Now'}
+                </button>
+              )}
+
+              {(post.status === 'pending' || post.status === 'retrying') && (
                 <button 
                   className="cancel-button"
                   onClick={() => handleCancel(post.id)}
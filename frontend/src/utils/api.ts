@@ -14,3 +14,8 @@ export const getBackendUrl = (): string => {
   // Production: use the same origin (works when frontend and backend are on same domain)
   return window.location.origin;
 };
+
+// Media served by the backend comes back as a path (e.g. /api/media/<id>/file); make it loadable from the frontend
+export const resolveMediaUrl = (url: string): string => {
+  return url.startsWith('/') ? `${getBackendUrl()}${url}` : url;
+};